@@ -1,6 +1,13 @@
 import fs from "fs";
 import pako from "pako";
 import { encode } from "@msgpack/msgpack";
+import { encodeAligned, toTypedColumns } from "../src/lib/typed-array-codec.js";
+import {
+  validateRawData,
+  validateReportStructure,
+  hasErrors,
+  formatIssue,
+} from "../src/lib/validate-data.js";
 
 // Get input and output file paths from command line arguments
 const inputFilePath = process.argv[2];
@@ -20,7 +27,23 @@ if (!fs.existsSync(outputDir)) {
 console.log(`Compressing ${inputFilePath}...`);
 const data = JSON.parse(fs.readFileSync(inputFilePath, "utf8"));
 
-const compressed = pako.gzip(encode(data));
+// Structure files are recognised by their top-level "categories" entry
+const isStructure = Array.isArray(data?.categories);
+const issues = isStructure
+  ? validateReportStructure(data)
+  : validateRawData(data);
+for (const issue of issues) {
+  console.error(formatIssue(issue));
+}
+if (hasErrors(issues)) {
+  console.error(`Validation of ${inputFilePath} failed, not writing ${outputFilePath}.`);
+  process.exit(1);
+}
+
+// Numeric and integer columns are stored as binary blocks that can be read without copying
+const compressed = pako.gzip(
+  isStructure ? encode(data) : encodeAligned(toTypedColumns(data)),
+);
 const encoded = Buffer.from(compressed).toString("base64");
 
 fs.writeFileSync(outputFilePath, `export const compressed_data = "${encoded}";`);
@@ -1,32 +1,82 @@
 import {
+  batch,
   createEffect,
   createSignal,
   For,
   Match,
   Show,
   Switch,
+  untrack,
   type Component,
 } from "solid-js";
+import { debounce } from "@solid-primitives/scheduled";
 import { createStore, produce } from "solid-js/store";
-import { ReportStructure, FilterSettings, RawData, Settings } from "./types";
-import * as _ from "lodash";
+import { ReportStructure, ExpressionFilter, FilterSettings, PolygonGate, RawData, Settings } from "./types";
 import { H1, H2, H3 } from "./components/heading";
-import { getData, getReportStructure } from "./lib/get-data";
+import { getData, getReportStructure, inferReportStructure } from "./lib/get-data";
 import { Histogram } from "./components/histogram";
 import { FilterSettingsForm } from "./components/app/filter-settings-form";
+import { PolygonGateForm } from "./components/app/polygon-gate-form";
+import { AddExpressionFilter, ExpressionFilterForm } from "./components/app/expression-filter-form";
+import { AddCategoryFilter, CategoryFilterForm } from "./components/app/category-filter-form";
 import { DataSummaryTable } from "./components/app/data-summary-table";
 import { BarPlot } from "./components/barplot";
 import { ScatterPlot } from "./components/scatterplot";
+import { ViolinPlot } from "./components/violin-plot";
+import { GateScatterPlot } from "./components/gate-scatter-plot";
+import { CategoryBarPlot } from "./components/category-barplot";
 import { createMemo } from "solid-js";
 import { SampleFilterForm } from "./components/app/sample-filter-form";
-import { filterData, calculateQcPassCells, getPassingCellIndices } from "./lib/data-filters";
+import { excludeSamples, filterData } from "./lib/data-filters";
+import { getColumn, withColumn, withRows } from "./lib/column-utils";
+import { createComputeResource, getComputeService } from "./lib/compute-service";
+import { QC_STATUS_COLUMN, sampleExclusions } from "./lib/filter-engine";
+import { describeAutoThreshold } from "./lib/auto-threshold";
+import { expressionColumns } from "./lib/expression";
+import { plotTitle } from "./lib/plots";
+import { saveFile } from "./lib/save-file";
+import { decodeReportState, encodeReportState, readStateFromHash, writeStateToHash } from "./lib/permalink";
+import { datasetFingerprint, loadAutosave, saveAutosave } from "./lib/sessions";
+import { toTypedColumns } from "./lib/typed-array-codec";
 import { transformSampleMetadata } from "./lib/sample-utils";
-import { createSettingsForm, SettingsFormProvider } from "./components/app/settings-form";
+import { createSettingsForm, defaultSettings, SettingsFormProvider } from "./components/app/settings-form";
 import { GlobalVisualizationSettings } from "./components/app/global-visualization-settings";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./components/ui/collapsible";
 import { Heatmap } from "~/components/heatmap";
+import { DataLoader } from "./components/app/data-loader";
+import { ValidationReport } from "./components/app/validation-report";
+import { FilterImport } from "./components/app/filter-import";
+import { SessionPanel } from "./components/app/session-panel";
+import { FilterFunnel } from "./components/app/filter-funnel";
+import { FilterOverlap } from "./components/app/filter-overlap";
+import { ExcludedSamplesTable } from "./components/app/excluded-samples-table";
+import { CellExport } from "./components/app/cell-export";
+import { DownloadAllFigures } from "./components/figure-export";
+import { WorkflowParamsExport } from "./components/app/workflow-params-export";
+import { MultiqcExport } from "./components/app/multiqc-export";
+import { formatIssue, hasErrors, validateRawData, validateReportStructure, ValidationIssue } from "./lib/validate-data";
 
 
+type VisualizationType = NonNullable<FilterSettings["visualizationType"]>;
+
+// Ways to show a cell-level metric, spatial is only offered when the cells can be binned
+const visualizationLabels: Record<VisualizationType, string> = {
+  histogram: "Histogram",
+  violin: "Violin",
+  box: "Box",
+  spatial: "Spatial",
+};
+const visualizationTypes = Object.keys(visualizationLabels) as VisualizationType[];
+
+type GateSource = Pick<FilterSettings, "field" | "yField" | "label" | "yLabel" | "xAxisType" | "yAxisType">;
+
+const spatialGateSource = (xCol: string, yCol: string): GateSource => ({
+  field: xCol,
+  yField: yCol,
+  label: "X Position (µm)",
+  yLabel: "Y Position (µm)",
+});
+
 const App: Component = () => {
   const [reportStructure, setReportStructure] = createSignal<ReportStructure>({categories: []});
   const [data, setData] = createSignal<RawData>();
@@ -35,16 +85,38 @@ const App: Component = () => {
   const form = createSettingsForm();
 
   const filters = form.useStore(state => state.values.filters);
+  const showRemovedCells = form.useStore(state => state.values.globalVisualization.showRemovedCells);
 
-  // read data in memory
-  createEffect(async () => {
-    console.log("reading qc categories");
-    setReportStructure(await getReportStructure());
+  // embedded structure is kept around so datasets loaded at runtime without a structure file can still use it
+  let embeddedStructure: ReportStructure | undefined;
+
+  const [validationIssues, setValidationIssues] = createSignal<ValidationIssue[]>([]);
+  // identifies the loaded dataset, sessions are stored per dataset
+  const [fingerprint, setFingerprint] = createSignal<string>();
+  // name of the data file, recorded in the exported workflow parameters
+  const [datasetName, setDatasetName] = createSignal("embedded dataset");
+
+  const loadDataset = (data: RawData, structure?: ReportStructure, name = "embedded dataset") => {
+    // only derive and check the structure if the data itself can be read
+    const dataIssues = validateRawData(data);
+    const newStructure = hasErrors(dataIssues)
+      ? undefined
+      : structure ?? embeddedStructure ?? inferReportStructure(data);
+    const issues = newStructure
+      ? dataIssues.concat(validateReportStructure(newStructure, data))
+      : dataIssues;
+
+    setValidationIssues(issues);
+    issues.forEach(issue => console.warn(formatIssue(issue)));
+    if (!newStructure || hasErrors(issues)) return;
+
+    // datasets loaded from JSON are converted to the same column storage as compressed datasets
+    toTypedColumns(data);
+    getComputeService().setData(data);
+
+    // filters applied to a previous dataset do not carry over
+    form.setFieldValue("filters", { ...defaultSettings.filters });
 
-    console.log("reading data");
-    const data = await getData();
-    setData(data);
-    
     // make sure to set the initial selected samples
     const sampleIds = data.sample_summary_stats?.columns.find(col => col.name === "sample_id")?.categories || [];
     form.setFieldValue("sampleSelection.selectedSamples", sampleIds);
@@ -54,22 +126,82 @@ const App: Component = () => {
     const columnNames = data.cell_rna_stats?.columns.map(c => c.name) || [];
     const hasSpatialCoordinates = columnNames.includes("x_coord") && columnNames.includes("y_coord");
     form.setFieldValue("binning.enabled", hasSpatialCoordinates);
+
+    // set the data last, the state of a shared link or saved session is restored on top of the defaults above.
+    // The structure and data are set together, so the saved session is never restored against the previous dataset.
+    restorePending = true;
+    batch(() => {
+      setFingerprint(datasetFingerprint(data));
+      setDatasetName(name);
+      setReportStructure(newStructure);
+      setData(data);
+    });
+  };
+
+  // read embedded data in memory, if the report was built with a dataset
+  createEffect(async () => {
+    console.log("reading qc categories");
+    embeddedStructure = await getReportStructure();
+
+    console.log("reading data");
+    const data = await getData();
+    if (!data) {
+      console.log("no embedded dataset found, waiting for a dataset to be loaded");
+      return;
+    }
+    loadDataset(data, embeddedStructure);
   });
 
   const sampleMetadata = createMemo(() => {
     return transformSampleMetadata(data());
   });
 
+  // Samples failing the applied sample-level filters, these are left out of every category
+  const excludedSamples = createMemo(() => {
+    const loaded = data();
+    if (!loaded || !filters().enabled) return [];
+    return sampleExclusions(loaded, filters().appliedSettings);
+  });
+  const excludedSampleNames = () => excludedSamples().map(exclusion => exclusion.sample);
+
+  // The QC status of the cells under the applied filters, all cells pass while no filters are applied.
+  // The compute worker gets the column before the resource resolves, so any request that uses it comes after.
+  const [qcStatus] = createComputeResource(() => {
+    const dataset = fingerprint();
+    if (!dataset) return undefined;
+
+    return {
+      type: "qcStatus" as const,
+      category: "cell_rna_stats",
+      dataset,
+      filters: filters().enabled ? filters().appliedSettings.cell_rna_stats || [] : [],
+      excludedSamples: excludedSampleNames(),
+    };
+  }, (column, request) => {
+    getComputeService().setColumn("cell_rna_stats", column);
+    return { dataset: request.dataset, column };
+  });
+
+  // The loaded data with the QC status column, so plots can be grouped by why cells were removed
+  const dataWithStatus = createMemo(() => {
+    const loaded = data();
+    const status = qcStatus.latest;
+    // the column of the previous dataset is kept until the column of a new dataset has been computed
+    if (!loaded?.cell_rna_stats || !status || status.dataset !== fingerprint()) return loaded;
+
+    return { ...loaded, cell_rna_stats: withColumn(loaded.cell_rna_stats, status.column) };
+  });
+
   // Add a function to get all categorical columns
   const getCategoricalColumns = createMemo(() => {
-    if (!data()) return ["sample_id"];
+    if (!dataWithStatus()) return ["sample_id"];
     
     // Find unique categorical columns across all data categories
     const allColumns = new Set<string>();
     
     // Check each category for categorical columns
     for (const category of reportStructure().categories) {
-      const categoryData = data()?.[category.key];
+      const categoryData = dataWithStatus()?.[category.key];
       if (categoryData) {
         categoryData.columns
           .filter(col => col.dtype === "categorical")
@@ -90,39 +222,44 @@ const App: Component = () => {
   // Use the imported filter function
   const selectedSamples = form.useStore(state => state.values.sampleSelection.selectedSamples);
   const filteredData = createMemo(() => {
-    return filterData(data(), selectedSamples());
+    return filterData(dataWithStatus(), selectedSamples());
+  });
+
+  // The cells that pass the applied filters are computed by the compute worker
+  const [passingCells] = createComputeResource(() => {
+    const sampleFiltered = excludeSamples(filteredData(), excludedSampleNames());
+    if (!sampleFiltered || !filters().enabled) return undefined;
+
+    return {
+      type: "passingRows" as const,
+      category: "cell_rna_stats",
+      rows: sampleFiltered.cell_rna_stats.index,
+      // Get cell QC filter settings from applied settings, not live settings
+      filters: filters().appliedSettings.cell_rna_stats || [],
+    };
   });
 
   // Modify the fullyFilteredData memo to use the applied settings instead of the current settings
   const fullyFilteredData = createMemo(() => {
-    const sampleFiltered = filteredData();
-
-    if (!sampleFiltered) return undefined;
     if (!filters().enabled) {
-      return sampleFiltered;
+      return filteredData();
     }
+
+    // samples failing the sample-level filters are left out of every category
+    const sampleFiltered = excludeSamples(filteredData(), excludedSampleNames());
+    if (!sampleFiltered) return undefined;
+
+    // Keep showing the sample filtered data until the passing cells have been computed
+    const passingRows = passingCells.latest;
+    if (!passingRows) return sampleFiltered;
     
     // Copy the data structure
     const result = {...sampleFiltered};
     
-    // Get cell QC filter settings from applied settings, not live settings
-    const cellFilters = filters().appliedSettings.cell_rna_stats || [];
-    
-    // Get the cell IDs that pass QC filters using the helper function
+    // Restrict the cell_rna_stats data to the passing rows
     const cellsData = sampleFiltered.cell_rna_stats;
-    const passingCellIndices = getPassingCellIndices(cellsData, cellFilters);
-    
-    // Filter the cell_rna_stats data
-    const passingIndices = Array.from(passingCellIndices);
-    if (passingIndices.length < cellsData.num_rows) {
-      result.cell_rna_stats = {
-        ...cellsData,
-        num_rows: passingIndices.length,
-        columns: cellsData.columns.map(col => ({
-          ...col,
-          data: passingIndices.map(i => col.data[i])
-        }))
-      };
+    if (passingRows.length < cellsData.num_rows) {
+      result.cell_rna_stats = withRows(cellsData, passingRows);
     }
     
     return result;
@@ -130,95 +267,56 @@ const App: Component = () => {
 
   const binning = form.useStore(state => state.values.binning);
 
-  const binIndices = createMemo(() => {
-    // TODO: Could compute the binIndices on the filteredData, and only apply the QC filtering afterwards to
-    // avoid recomputing the indices every time the filters change.
-    const dataSource = filters().enabled ? fullyFilteredData() : filteredData();
-    if (!dataSource) return undefined;
-    if (!binning().enabled) return undefined;
-
-    // Get the x and y coordinates from the cell_rna_stats data
-    const xCol = dataSource.cell_rna_stats.columns.find(col => col.name === binning().xCol);
-    const yCol = dataSource.cell_rna_stats.columns.find(col => col.name === binning().yCol);
+  // Spatial binning requires numeric coordinates, otherwise the cells are shown in a scatter plot
+  const canBinCells = createMemo(() => {
+    const cells = data()?.cell_rna_stats;
+    if (!cells || !binning().enabled) return false;
 
-    if (!xCol || !yCol) return undefined;
-    if (xCol.dtype !== "numeric" || yCol.dtype !== "numeric") {
+    const xCol = getColumn(cells, binning().xCol);
+    const yCol = getColumn(cells, binning().yCol);
+    if (xCol?.dtype !== "numeric" || yCol?.dtype !== "numeric") {
       console.error("Grid binning requires numeric coordinates");
-      return undefined;
+      return false;
     }
-    const xCoord = xCol!.data as number[];
-    const yCoord = yCol!.data as number[];
-
-    if (!xCoord || !yCoord) return undefined;
-
-    // Add a small offset to avoid having cells fall exactly on the bin edges
-    const xMin = _.min(xCoord)! - 1e-6;
-    const xMax = _.max(xCoord)! + 1e-6;
-    const yMin = _.min(yCoord)! - 1e-6;
-    const yMax = _.max(yCoord)! + 1e-6;
-    const numBinsX = binning().numBinsX;
-    const numBinsY = binning().numBinsY;
-    const binWidthX = (xMax - xMin) / numBinsX;
-    const binWidthY = (yMax - yMin) / numBinsY;
-
-    // Create regular rectangular grid - bins represent center coordinates
-    const xBinCenters = Array.from({ length: numBinsX }, (_, i) => 
-      xMin + (i + 0.5) * binWidthX
-    );
-    const yBinCenters = Array.from({ length: numBinsY }, (_, i) => 
-      yMin + (i + 0.5) * binWidthY
-    );
-
-    // Create 2D array to store cell indices for each bin
-    const binIndices: number[][][] = Array.from({ length: numBinsY }, () => 
-      Array.from({ length: numBinsX }, () => [])
-    );
-
-    // Assign each cell to its corresponding bin
-    for (let i = 0; i < xCoord.length; i++) {
-      const px = xCoord[i];
-      const py = yCoord[i];
-
-      // Find bin indices
-      const xBin = Math.floor((px - xMin) / binWidthX);
-      const yBin = Math.floor((py - yMin) / binWidthY);
-      
-      // Ensure we're within bounds
-      if (xBin >= 0 && xBin < numBinsX && yBin >= 0 && yBin < numBinsY) {
-        binIndices[yBin][xBin].push(i);
-      }
-    }
-
-    return {
-      xMin,
-      xMax,
-      yMin,
-      yMax,
-      numBinsX,
-      numBinsY,
-      binWidthX,
-      binWidthY,
-      xBinCenters,
-      yBinCenters,
-      binIndices
-    };
-  })
+    return true;
+  });
 
   // initialise filtersettings
   const [settings, setSettings] = createStore<Settings>(
     Object.fromEntries(Object.keys(data() ?? {}).map((key) => [key, []])),
   );
 
+  // state of the report from a shared link, restored when the first dataset has been loaded
+  let linkState = readStateFromHash();
+  // set while a new dataset is loaded, its state is restored once the plots of the dataset are known
+  let restorePending = false;
+
+  const restoreState = (value: string, dataset: RawData) => {
+    try {
+      const restored = decodeReportState(value, { form: form.state.values, settings }, dataset);
+      for (const categoryKey in restored.settings) {
+        setSettings(categoryKey, restored.settings[categoryKey]);
+      }
+      form.setFieldValue("sampleSelection", restored.form.sampleSelection);
+      form.setFieldValue("globalVisualization", restored.form.globalVisualization);
+      form.setFieldValue("binning", restored.form.binning);
+      form.setFieldValue("filters", restored.form.filters);
+    } catch (err) {
+      console.warn("Could not restore the report state:", err);
+    }
+  };
+
   createEffect(() => {
     for (const category of reportStructure().categories) {
       console.log(`setting ${category.name} filters`);
 
       const columnNames =
-        data()?.[category.key].columns.map((x) => x.name) ?? [];
+        data()?.[category.key]?.columns.map((x) => x.name) ?? [];
 
       // check if default columns are present
       const newFilters = category.defaultFilters.flatMap((defaultPlot) => {
-        if (columnNames.includes(defaultPlot.field)) {
+        if (columnNames.includes(defaultPlot.field) &&
+            (defaultPlot.type !== "scatter" || columnNames.includes(defaultPlot.yField!))) {
           return [defaultPlot];
         } else {
           return [];
@@ -227,13 +325,91 @@ const App: Component = () => {
 
       setSettings(category.key, newFilters);
     }
+
+    // restore the state of a shared link, or else the autosaved session of the dataset
+    const dataset = data();
+    if (restorePending && dataset) {
+      restorePending = false;
+      const state = linkState ?? untrack(() => loadAutosave(fingerprint()!));
+      linkState = undefined;
+      if (state) untrack(() => restoreState(state, dataset));
+    }
   });
 
-  // Use the imported cell counting function
-  const qcPass = createMemo(() => {
-    return calculateQcPassCells(filteredData(), settings.cell_rna_stats || []);
+  // Keep the URL hash and the autosaved session up to date, so the current view can be shared or resumed
+  const formValues = form.useStore(state => state.values);
+  const currentState = () => encodeReportState({ form: formValues(), settings });
+  const saveState = debounce((state: string, fingerprint: string) => {
+    writeStateToHash(state);
+    saveAutosave(fingerprint, state);
+  }, 300);
+  createEffect(() => {
+    const state = { form: formValues(), settings: JSON.parse(JSON.stringify(settings)) };
+    const currentFingerprint = fingerprint();
+    if (!data() || !currentFingerprint || restorePending) return;
+    saveState(encodeReportState(state), currentFingerprint);
   });
 
+  const [linkCopied, setLinkCopied] = createSignal(false);
+  const copyLink = async () => {
+    saveState.clear();
+    writeStateToHash(currentState());
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error("Could not copy the link:", err);
+      alert("Could not copy the link, please copy it from the address bar instead.");
+    }
+  };
+
+  // The cell filters of the funnel and overlap: the applied filters, or a preview of the current settings while
+  // no filters are applied. The settings store can not be sent to the worker, so a plain copy is made.
+  const resultFilters = (): FilterSettings[] => filters().enabled
+    ? filters().appliedSettings.cell_rna_stats || []
+    : JSON.parse(JSON.stringify(settings.cell_rna_stats || []));
+
+  // Polygon gates drawn on a plot are added as filters of their own, named in the order they were drawn
+  const addGate = (categoryKey: keyof RawData, source: GateSource, vertices: PolygonGate["vertices"], keep: PolygonGate["keep"]) => {
+    const names = (settings[categoryKey] ?? []).flatMap(filter => filter.polygon ? [filter.polygon.name] : []);
+    let number = names.length + 1;
+    while (names.includes(`Gate ${number}`)) number++;
+
+    setSettings(categoryKey, filters => [...filters, {
+      ...source,
+      type: "polygon",
+      polygon: { name: `Gate ${number}`, vertices, keep },
+    }]);
+  };
+
+  // Expression filters are named in the order they were added, like the gates
+  const addExpressionFilter = (categoryKey: keyof RawData, condition: string, action: ExpressionFilter["action"]) => {
+    const names = (settings[categoryKey] ?? []).flatMap(filter => filter.expression ? [filter.expression.name] : []);
+    let number = names.length + 1;
+    while (names.includes(`Expression ${number}`)) number++;
+
+    setSettings(categoryKey, filters => [...filters, {
+      type: "expression",
+      field: expressionColumns(condition)[0] ?? "",
+      label: `Expression ${number}`,
+      expression: { name: `Expression ${number}`, condition, action },
+    }]);
+  };
+
+  // Replace the settings by imported settings, and optionally apply them to the plots right away
+  const importSettings = (imported: Settings, applyToPlots: boolean) => {
+    for (const categoryKey in imported) {
+      setSettings(categoryKey, imported[categoryKey]);
+    }
+    if (applyToPlots) {
+      form.setFieldValue("filters", {
+        enabled: true,
+        appliedSettings: JSON.parse(JSON.stringify(imported)),
+      });
+    }
+  };
+
   // Export current filter settings as YAML using hybrid approach
   const exportFiltersAsYaml = async () => {
     // Get a clean copy of settings
@@ -243,65 +419,141 @@ const App: Component = () => {
     let yamlContent = "# OpenPipelines Ingestion QC Filter Settings\n";
     yamlContent += "# Generated on " + new Date().toISOString() + "\n\n";
     
+    // Thresholds by key, e.g. min_total_counts. A field can be filtered by more than one plot (e.g. by a
+    // histogram and on an axis of a scatter plot), all filters apply so the strictest threshold is kept.
+    const thresholds = new Map<string, number>();
+    const addThreshold = (
+      bound: "min" | "max",
+      field: string | undefined,
+      value: number | undefined,
+      target: Map<string, number> = thresholds,
+    ) => {
+      if (field === undefined || value === undefined) return;
+      const key = `${bound}_${field}`;
+      const current = target.get(key);
+      target.set(key, current === undefined ? value : bound === "min" ? Math.max(current, value) : Math.min(current, value));
+    };
+    
+    // Descriptions of how thresholds were derived, by field
+    const comments = new Map<string, string>();
+    
+    // Polygon gates are exported with their vertices, so they can be applied downstream
+    const gates: FilterSettings[] = [];
+    
+    // Expression filters are exported with their condition
+    const expressions: FilterSettings[] = [];
+    
+    // Category filters are exported with the categories they keep or remove
+    const categoryFilters: FilterSettings[] = [];
+    
+    // Per-sample overrides, grouped by sample
+    const sampleOverrides: Record<string, Map<string, number>> = {};
+    
     // Iterate through all categories and filters
     for (const categoryKey in exportSettings) {
       exportSettings[categoryKey].forEach((filter: FilterSettings) => {
-        // Add min threshold if it exists
-        if (filter.cutoffMin !== undefined) {
-          yamlContent += `min_${filter.field}: ${filter.cutoffMin}\n`;
+        if (filter.polygon) {
+          gates.push(filter);
+          return;
+        }
+        if (filter.expression) {
+          expressions.push(filter);
+          return;
+        }
+        if (filter.type === "category") {
+          if (filter.categorySelection) categoryFilters.push(filter);
+          return;
         }
         
-        // Add max threshold if it exists
-        if (filter.cutoffMax !== undefined) {
-          yamlContent += `max_${filter.field}: ${filter.cutoffMax}\n`;
+        // Record how derived thresholds were obtained
+        if (filter.autoThreshold) {
+          comments.set(filter.field, describeAutoThreshold(filter.autoThreshold));
+        }
+        
+        addThreshold("min", filter.field, filter.cutoffMin);
+        addThreshold("max", filter.field, filter.cutoffMax);
+        
+        // The Y axis of a scatter plot filters its yField
+        if (filter.type === "scatter") {
+          addThreshold("min", filter.yField, filter.cutoffMinY);
+          addThreshold("max", filter.yField, filter.cutoffMaxY);
+        }
+        
+        for (const [sample, cutoffs] of Object.entries(filter.sampleCutoffs || {})) {
+          const overrides = (sampleOverrides[sample] ??= new Map());
+          addThreshold("min", filter.field, cutoffs.cutoffMin, overrides);
+          addThreshold("max", filter.field, cutoffs.cutoffMax, overrides);
         }
       });
     }
     
-    // Create the blob with the YAML content
-    const blob = new Blob([yamlContent], { type: 'text/yaml' });
+    for (const [key, value] of thresholds) {
+      const field = key.replace(/^(min|max)_/, "");
+      if (comments.has(field)) {
+        yamlContent += `# ${field}: ${comments.get(field)}\n`;
+        comments.delete(field);
+      }
+      yamlContent += `${key}: ${value}\n`;
+    }
     
-    try {
-      // Check if the File System Access API is available
-      if ('showSaveFilePicker' in window) {
-        // Use the modern File System Access API
-        const options = {
-          types: [{
-            description: 'YAML files',
-            accept: { 'text/yaml': ['.yaml'] }
-          }],
-          suggestedName: 'qc_filters.yaml'
-        };
-        
-        // @ts-ignore - TypeScript might not recognize this API yet
-        const fileHandle = await window.showSaveFilePicker(options);
-        const writable = await fileHandle.createWritable();
-        await writable.write(blob);
-        await writable.close();
-      } else {
-        // Fall back to the traditional approach
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = 'qc_filters.yaml'; // Default filename
-        
-        // Add to the document and click
-        document.body.appendChild(link);
-        link.click();
-        
-        // Clean up
-        setTimeout(() => {
-          document.body.removeChild(link);
-          URL.revokeObjectURL(url);
-        }, 100);
+    if (Object.keys(sampleOverrides).length > 0) {
+      yamlContent += "\n# Thresholds that override the ones above for individual samples\n";
+      yamlContent += "sample_overrides:\n";
+      for (const [sample, overrides] of Object.entries(sampleOverrides)) {
+        yamlContent += `  ${JSON.stringify(sample)}:\n`;
+        overrides.forEach((value, key) => yamlContent += `    ${key}: ${value}\n`);
       }
-    } catch (err) {
-      console.error("Error saving file:", err);
-      // If the user canceled the save dialog, don't show an error
-      if (!(err instanceof DOMException && err.name === 'AbortError')) {
-        alert("Failed to save file. " + err);
+    }
+    
+    if (gates.length > 0) {
+      yamlContent += "\n# Cells pass a gate when they are inside (keep: inside) or outside (keep: outside) the polygon\n";
+      yamlContent += "polygon_gates:\n";
+      for (const gate of gates) {
+        yamlContent += `  ${JSON.stringify(gate.polygon!.name)}:\n`;
+        yamlContent += `    x: ${gate.field}\n`;
+        yamlContent += `    y: ${gate.yField}\n`;
+        yamlContent += `    keep: ${gate.polygon!.keep}\n`;
+        yamlContent += `    vertices: ${JSON.stringify(gate.polygon!.vertices)}\n`;
+      }
+    }
+    
+    if (categoryFilters.length > 0) {
+      yamlContent += "\n# Cells pass when their category is one of the included or none of the excluded categories\n";
+      yamlContent += "category_filters:\n";
+      for (const filter of categoryFilters) {
+        const { mode, selected } = filter.categorySelection!;
+        yamlContent += `  ${JSON.stringify(filter.field)}:\n`;
+        yamlContent += `    ${mode}: ${JSON.stringify(selected)}\n`;
+      }
+    }
+    
+    if (expressions.length > 0) {
+      yamlContent += "\n# Cells for which the condition holds are removed (action: remove) or kept (action: keep)\n";
+      yamlContent += "expression_filters:\n";
+      for (const filter of expressions) {
+        yamlContent += `  ${JSON.stringify(filter.expression!.name)}:\n`;
+        yamlContent += `    condition: ${JSON.stringify(filter.expression!.condition)}\n`;
+        yamlContent += `    action: ${filter.expression!.action}\n`;
+      }
+    }
+    
+    // Samples failing the sample-level thresholds are recorded for reference, they follow from the thresholds
+    const exclusions = data() ? sampleExclusions(data()!, exportSettings) : [];
+    if (exclusions.length > 0) {
+      yamlContent += "\n# Samples failing the sample-level thresholds above, with the metrics they fail\n";
+      yamlContent += "excluded_samples:\n";
+      for (const exclusion of exclusions) {
+        yamlContent += `  ${JSON.stringify(exclusion.sample)}: ${JSON.stringify(exclusion.reasons)}\n`;
       }
     }
+    
+    // Create the blob with the YAML content
+    const blob = new Blob([yamlContent], { type: 'text/yaml' });
+    
+    await saveFile(blob, 'qc_filters.yaml', {
+      description: 'YAML files',
+      accept: { 'text/yaml': ['.yaml'] },
+    });
   };
 
   // page layout
@@ -309,6 +561,8 @@ const App: Component = () => {
     <SettingsFormProvider form={form}>
       <div class="container mx-a space-y-2">
         <H1>OpenPipelines Ingestion QC Report</H1>
+        <DataLoader onLoad={loadDataset} hasData={!!data()} />
+        <ValidationReport issues={validationIssues()} />
         <SampleFilterForm sampleMetadata={sampleMetadata()} data={data()} />
         <GlobalVisualizationSettings getCategoricalColumns={getCategoricalColumns} />
         <For each={reportStructure().categories}>
@@ -358,62 +612,62 @@ const App: Component = () => {
                         return setting.groupBy || "sample_id"; // Use plot's own setting or default
                       }
                     });
+
+                    // cells grouped by their QC status are shown whether they pass or not, so the groups tell
+                    // why cells were removed. Plots that can grey out the removed cells get all cells as well.
+                    const showRemoved = () => filters().enabled && globalVisualization().showRemovedCells;
+                    const plotData = (canShowRemoved: boolean = false) =>
+                      (filters().enabled && !(canShowRemoved && showRemoved()) && currentFilterGroupBy() !== QC_STATUS_COLUMN
+                        ? fullyFilteredData()
+                        : filteredData())![category.key];
                     
                     const [isPlotExpanded, setIsPlotExpanded] = createSignal(true);
                     
+                    // expression filters have no plot, the type of a filter does not change
+                    if (setting.type === "expression") {
+                      return (
+                        <div>
+                          <H3>{plotTitle(setting)}</H3>
+                          <Show when={filteredData()}>
+                            <ExpressionFilterForm
+                              filterSettings={setting}
+                              updateFilterSettings={(fn) =>
+                                setSettings(category.key, i(), produce(fn))
+                              }
+                              data={filteredData()![category.key]}
+                              category={category.key}
+                              onRemove={() =>
+                                setSettings(category.key, filters => filters.filter((_, j) => j !== i()))
+                              }
+                            />
+                          </Show>
+                        </div>
+                      );
+                    }
+                    
                     return (
                       <div>
                         <div class="flex justify-between items-center mb-2">
-                          <H3>{setting.label}</H3>
+                          <H3>{plotTitle(setting)}</H3>
                           
                           {/* Add the visualization toggle in the top-right corner */}
-                          <Show when={category.key === "cell_rna_stats" && 
-                                    setting.type === "histogram" && 
-                                    binning().enabled}>
-                            <div 
-                              class="relative rounded-full bg-gray-200 shadow-sm overflow-hidden"
-                              style={{ height: "32px", width: "180px" }}
-                            >
-                              <div 
-                                class="absolute bg-white rounded-full shadow transition-transform duration-200"
-                                style={{
-                                  width: "calc(50% - 4px)",
-                                  height: "calc(100% - 4px)",
-                                  top: "2px",
-                                  left: "2px",
-                                  transform: setting.visualizationType !== 'spatial' 
-                                    ? 'translateX(0)' 
-                                    : 'translateX(calc(100% + 4px))'
-                                }}
-                              />
-                              
-                              <div class="absolute inset-0 flex w-full h-full">
-                                <div 
-                                  class="flex items-center justify-center w-1/2 cursor-pointer"
-                                  onClick={() => setSettings(category.key, i(), "visualizationType", "histogram" )}
-                                >
-                                  <span 
-                                    class={`text-sm font-medium transition-colors duration-200 ${
-                                      setting.visualizationType !== 'spatial' ? 'text-gray-800' : 'text-gray-500'
-                                    }`}
-                                  >
-                                    Histogram
-                                  </span>
-                                </div>
-                                
-                                <div 
-                                  class="flex items-center justify-center w-1/2 cursor-pointer"
-                                  onClick={() => setSettings(category.key, i(), "visualizationType", "spatial" )}
-                                >
-                                  <span 
-                                    class={`text-sm font-medium transition-colors duration-200 ${
-                                      setting.visualizationType === 'spatial' ? 'text-gray-800' : 'text-gray-500'
+                          <Show when={category.key === "cell_rna_stats" && setting.type === "histogram"}>
+                            <div class="flex rounded-full bg-gray-200 shadow-sm p-0.5" style={{ height: "32px" }}>
+                              <For each={visualizationTypes.filter(type => type !== "spatial" || binning().enabled)}>
+                                {(type) => (
+                                  <button
+                                    type="button"
+                                    class={`px-3 rounded-full text-sm font-medium transition-colors duration-200 ${
+                                      (setting.visualizationType || "histogram") === type
+                                        ? "bg-white shadow text-gray-800"
+                                        : "text-gray-500"
                                     }`}
+                                    onClick={() => setSettings(category.key, i(), "visualizationType", type)}
                                   >
-                                    Spatial
-                                  </span>
-                                </div>
-                              </div>
+                                    {visualizationLabels[type]}
+                                  </button>
+                                )}
+                              </For>
                             </div>
                           </Show>
                         </div>
@@ -436,63 +690,147 @@ const App: Component = () => {
                                   <div>Loading...</div>
                                 </Match>
                                 <Match when={setting.type === "bar"}>
+                                  {/* excluded samples stay visible, so the cutoffs that exclude them can be seen */}
                                   <BarPlot
-                                    data={(filters().enabled ? fullyFilteredData() : filteredData())![category.key]}
+                                    data={filteredData()![category.key]}
+                                    category={category.key}
                                     filterSettings={{
                                       ...setting,
                                       groupBy: currentFilterGroupBy()
                                     }}
+                                    updateFilterSettings={(fn) =>
+                                      setSettings(category.key, i(), produce(fn))
+                                    }
                                   />
                                 </Match>
                                 <Match when={setting.type === "histogram" && 
                                             (setting.visualizationType === "histogram" || !setting.visualizationType)}>
                                   <Histogram
-                                    data={(filters().enabled ? fullyFilteredData() : filteredData())![category.key]}
+                                    data={plotData(true)}
+                                    category={category.key}
                                     filterSettings={{
                                       ...setting,
                                       groupBy: currentFilterGroupBy()
                                     }}
                                     additionalAxes={category.additionalAxes}
+                                    showRemoved={showRemoved()}
+                                    updateFilterSettings={(fn) =>
+                                      setSettings(category.key, i(), produce(fn))
+                                    }
+                                  />
+                                </Match>
+                                <Match when={setting.type === "histogram" &&
+                                            (setting.visualizationType === "violin" || setting.visualizationType === "box")}>
+                                  <ViolinPlot
+                                    data={plotData()}
+                                    category={category.key}
+                                    filterSettings={{
+                                      ...setting,
+                                      groupBy: currentFilterGroupBy()
+                                    }}
+                                    mode={setting.visualizationType as "violin" | "box"}
+                                  />
+                                </Match>
+                                <Match when={setting.type === "scatter"}>
+                                  <GateScatterPlot
+                                    data={plotData()}
+                                    category={category.key}
+                                    filterSettings={setting}
+                                    onCreateGate={(vertices, keep) => addGate(category.key, setting, vertices, keep)}
+                                  />
+                                </Match>
+                                <Match when={setting.type === "category"}>
+                                  <CategoryBarPlot
+                                    data={filteredData()![category.key]}
+                                    category={category.key}
+                                    filterSettings={setting}
+                                  />
+                                </Match>
+                                <Match when={setting.type === "polygon"}>
+                                  <GateScatterPlot
+                                    data={plotData()}
+                                    category={category.key}
+                                    filterSettings={setting}
+                                    isSpatial={setting.field === binning().xCol && setting.yField === binning().yCol}
                                   />
                                 </Match>
                                 {/* Spatial visualization with conditional binning */}
                                 <Match when={setting.type === "histogram" && setting.visualizationType === "spatial"}>
-                                  <Show when={binning().enabled && binIndices()}>
+                                  <Show when={canBinCells()}>
                                     <Heatmap
-                                      data={(filters().enabled ? fullyFilteredData() : filteredData())![category.key]}
-                                      binData={binIndices()!}
+                                      data={plotData(true)}
+                                      category={category.key}
+                                      binning={binning()}
                                       filterSettings={{
                                         ...setting,
                                         groupBy: currentFilterGroupBy()
                                       }}
                                       colorFieldName={setting.field}
+                                      showRemoved={showRemoved()}
+                                      onCreateGate={(vertices, keep) =>
+                                        addGate(category.key, spatialGateSource(binning().xCol, binning().yCol), vertices, keep)
+                                      }
                                     />
                                   </Show>
                                   
-                                  <Show when={!binning().enabled || !binIndices()}>
+                                  <Show when={!canBinCells()}>
                                     <ScatterPlot
-                                      data={(filters().enabled ? fullyFilteredData() : filteredData())?.cell_rna_stats!}
+                                      data={(filters().enabled && !showRemoved() ? fullyFilteredData() : filteredData())?.cell_rna_stats!}
+                                      category="cell_rna_stats"
                                       filterSettings={{
                                         ...setting,
                                         groupBy: currentFilterGroupBy()
                                       }}
                                       additionalAxes={category.additionalAxes}
                                       colorFieldName={setting.field}
+                                      showRemoved={showRemoved()}
+                                      onCreateGate={(vertices, keep) =>
+                                        addGate("cell_rna_stats", spatialGateSource("x_coord", "y_coord"), vertices, keep)
+                                      }
                                     />
                                   </Show>
                                 </Match>
                               </Switch>
-                              <FilterSettingsForm
-                                filterSettings={setting}
-                                updateFilterSettings={(fn) =>
-                                  setSettings(category.key, i(), produce(fn))
-                                }
-                                data={filteredData()![category.key]}
-                                globalGroupBy={category.key === "metrics_cellranger_stats" ? undefined : (globalVisualization().groupingEnabled ? globalVisualization().groupBy : undefined)}
-                                forceGroupBy={category.key === "metrics_cellranger_stats" ? "sample_id" : undefined}
-                                isGlobalGroupingEnabled={globalVisualization().groupingEnabled}
-                                category={category.key} // Pass the category key
-                              />
+                              <Switch fallback={
+                                <FilterSettingsForm
+                                  filterSettings={setting}
+                                  updateFilterSettings={(fn) =>
+                                    setSettings(category.key, i(), produce(fn))
+                                  }
+                                  data={filteredData()![category.key]}
+                                  globalGroupBy={category.key === "metrics_cellranger_stats" ? undefined : (globalVisualization().groupingEnabled ? globalVisualization().groupBy : undefined)}
+                                  forceGroupBy={category.key === "metrics_cellranger_stats" ? "sample_id" : undefined}
+                                  isGlobalGroupingEnabled={globalVisualization().groupingEnabled}
+                                  category={category.key} // Pass the category key
+                                />
+                              }>
+                                <Match when={setting.type === "polygon"}>
+                                  <PolygonGateForm
+                                    filterSettings={setting}
+                                    updateFilterSettings={(fn) =>
+                                      setSettings(category.key, i(), produce(fn))
+                                    }
+                                    data={filteredData()![category.key]}
+                                    category={category.key}
+                                    onRemove={() =>
+                                      setSettings(category.key, filters => filters.filter((_, j) => j !== i()))
+                                    }
+                                  />
+                                </Match>
+                                <Match when={setting.type === "category"}>
+                                  <CategoryFilterForm
+                                    filterSettings={setting}
+                                    updateFilterSettings={(fn) =>
+                                      setSettings(category.key, i(), produce(fn))
+                                    }
+                                    data={filteredData()![category.key]}
+                                    category={category.key}
+                                    onRemove={() =>
+                                      setSettings(category.key, filters => filters.filter((_, j) => j !== i()))
+                                    }
+                                  />
+                                </Match>
+                              </Switch>
                             </div>
                           </CollapsibleContent>
                         </Collapsible>
@@ -501,6 +839,27 @@ const App: Component = () => {
                   }}
                 </For>
               </div>
+              <Show when={category.key === "cell_rna_stats" && filteredData()}>
+                <div class="mt-4">
+                  <H3>Filter on categories</H3>
+                  <AddCategoryFilter
+                    data={filteredData()![category.key]}
+                    filteredFields={settings[category.key].flatMap(filter => filter.type === "category" ? [filter.field] : [])}
+                    onAdd={(field) => setSettings(category.key, filters => [...filters, {
+                      type: "category",
+                      field,
+                      label: field.replace(/_/g, " "),
+                    }])}
+                  />
+                </div>
+                <div class="mt-4">
+                  <H3>Filter on a condition</H3>
+                  <AddExpressionFilter
+                    data={filteredData()![category.key]}
+                    onAdd={(condition, action) => addExpressionFilter(category.key, condition, action)}
+                  />
+                </div>
+              </Show>
             </Show>
           )}
         </For>
@@ -510,7 +869,43 @@ const App: Component = () => {
             <p># Cells before filtering: {data()!.cell_rna_stats.num_rows}</p>
           </Show>
           <Show when={data()} fallback={<p># Cells after filtering: ...</p>}>
-            <p># Cells after filtering: {filters().enabled ? qcPass() : data()!.cell_rna_stats.num_rows}</p>
+            <p>
+              # Cells after filtering: {filters().enabled ? (passingCells.latest?.length ?? "...") : data()!.cell_rna_stats.num_rows}
+              <Show when={filters().enabled && passingCells.loading}>
+                <span class="ml-2 text-sm text-gray-500">Computing...</span>
+              </Show>
+            </p>
+            <Show when={excludedSamples().length > 0}>
+              <div class="mt-4">
+                <H3>Excluded samples</H3>
+                <p class="text-sm text-gray-600">
+                  These samples fail the sample-level filters, they and their cells are left out of every plot.
+                </p>
+                <ExcludedSamplesTable exclusions={excludedSamples()} />
+              </div>
+            </Show>
+            <Show when={excludeSamples(filteredData(), excludedSampleNames())}>
+              {(sampleFiltered) => (
+                <div class="mt-4">
+                  <FilterFunnel
+                    data={sampleFiltered().cell_rna_stats}
+                    category="cell_rna_stats"
+                    filters={resultFilters()}
+                  />
+                </div>
+              )}
+            </Show>
+            <Show when={excludeSamples(filteredData(), excludedSampleNames())}>
+              {(sampleFiltered) => (
+                <div class="mt-4">
+                  <FilterOverlap
+                    data={sampleFiltered().cell_rna_stats}
+                    category="cell_rna_stats"
+                    filters={resultFilters()}
+                  />
+                </div>
+              )}
+            </Show>
             <div class="mt-4 flex gap-2">
               <form.Field name="filters">
                 {(field) => (
@@ -528,6 +923,19 @@ const App: Component = () => {
                   </button>
                 )}
               </form.Field>
+              <form.Field name="globalVisualization.showRemovedCells">
+                {(field) => (
+                  <label class="flex items-center gap-1 text-sm" title="Show the cells removed by the applied filters in grey instead of leaving them out">
+                    <input
+                      type="checkbox"
+                      checked={field().state.value}
+                      onChange={(e) => field().handleChange(e.currentTarget.checked)}
+                      class="h-4 w-4"
+                    />
+                    Show removed cells
+                  </label>
+                )}
+              </form.Field>
               <form.Field name="filters.enabled">
                 {(field) => (
                   <button 
@@ -541,8 +949,17 @@ const App: Component = () => {
                           setSettings(categoryKey, index, produce(s => {
                             s.cutoffMin = undefined;
                             s.cutoffMax = undefined;
+                            s.cutoffMinY = undefined;
+                            s.cutoffMaxY = undefined;
+                            s.sampleCutoffs = undefined;
+                            s.autoThreshold = undefined;
+                            s.categorySelection = undefined;
                           }));
                         });
+                        // drawn gates and expression filters are removed altogether
+                        setSettings(categoryKey, filters =>
+                          filters.filter(filter => filter.type !== "polygon" && filter.type !== "expression")
+                        );
                       }
                       
                       // Also reset the appliedSettings to ensure the form is consistent
@@ -563,12 +980,70 @@ const App: Component = () => {
                 Export Filters as YAML
               </button>
               
+              <Show when={data()}>
+                {(loaded) => (
+                  <WorkflowParamsExport
+                    structure={reportStructure()}
+                    settings={settings}
+                    data={loaded()}
+                    datasetName={datasetName()}
+                    fingerprint={fingerprint()}
+                    selectedSamples={selectedSamples()}
+                  />
+                )}
+              </Show>
+              
+              <Show when={filteredData()}>
+                {(sampleFiltered) => (
+                  <CellExport
+                    data={sampleFiltered().cell_rna_stats}
+                    filters={filters().enabled ? filters().appliedSettings.cell_rna_stats || [] : undefined}
+                    excludedSamples={excludedSampleNames()}
+                  />
+                )}
+              </Show>
+              
+              <Show when={filteredData()}>
+                {(sampleFiltered) => (
+                  <MultiqcExport
+                    data={sampleFiltered()}
+                    settings={filters().enabled ? filters().appliedSettings : undefined}
+                    excludedSamples={excludedSampleNames()}
+                  />
+                )}
+              </Show>
+              
+              <DownloadAllFigures />
+              
+              <button 
+                onClick={copyLink}
+                class="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition-colors"
+                title="Copy a link to this report with the current samples, plot settings and filters"
+              >
+                {linkCopied() ? "Link copied" : "Copy Link"}
+              </button>
+              
               {filters().enabled && (
                 <p class="text-sm text-green-600 flex items-center">
-                  ✓ Filters applied - Plots show only cells that pass all thresholds
+                  {showRemovedCells()
+                    ? "✓ Filters applied - Plots show the removed cells in grey"
+                    : "✓ Filters applied - Plots show only cells that pass all thresholds"}
                 </p>
               )}
             </div>
+            <FilterImport settings={settings} data={data()} onImport={importSettings} />
+            <Show when={fingerprint()}>
+              {(fingerprint) => (
+                <div class="mt-4">
+                  <SessionPanel
+                    fingerprint={fingerprint()}
+                    data={data()!}
+                    currentState={currentState}
+                    onRestore={(state) => restoreState(state, data()!)}
+                  />
+                </div>
+              )}
+            </Show>
           </Show>
         </div>
         <div>
@@ -0,0 +1,203 @@
+import { createSignal, createUniqueId, onCleanup, Show } from "solid-js";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Label } from "~/components/ui/label";
+import { TextFieldInput, TextFieldLabel } from "../ui/text-field";
+import { NumberField } from "../number-field";
+import { autoThresholdDefaults, describeAutoThreshold } from "~/lib/auto-threshold";
+import { getComputeService } from "~/lib/compute-service";
+import { AutoThreshold, FilterSettings, RawData, RawDataCategory } from "~/types";
+
+type Props = {
+  filterSettings: FilterSettings;
+  updateFilterSettings: (fn: (settings: FilterSettings) => FilterSettings) => void;
+  data: RawDataCategory;
+  category: keyof RawData;
+};
+
+const methodLabels: Record<AutoThreshold["method"], string> = {
+  mad: "Median ± k·MAD",
+  log_mad: "Median ± k·MAD (log)",
+  percentile: "Percentiles",
+};
+
+const boundLabels: Record<AutoThreshold["bounds"], string> = {
+  both: "Min and max",
+  lower: "Min only",
+  upper: "Max only",
+};
+
+// Keep the derived cutoffs readable, the method is stored with the settings anyway
+const round = (value?: number) => value === undefined ? undefined : Number(value.toPrecision(6));
+
+export function AutoThresholdForm(props: Props) {
+  const [params, setParams] = createSignal<AutoThreshold>({
+    ...autoThresholdDefaults,
+    ...props.filterSettings.autoThreshold,
+  });
+  const [isComputing, setIsComputing] = createSignal(false);
+  const [error, setError] = createSignal<string>();
+
+  const compute = getComputeService();
+  const channel = createUniqueId();
+  onCleanup(() => compute.cancel(channel));
+
+  const updateParams = (changes: Partial<AutoThreshold>) => setParams({ ...params(), ...changes });
+
+  const applyThreshold = async () => {
+    const auto = params();
+    setIsComputing(true);
+    setError(undefined);
+
+    try {
+      const result = await compute.request<"autoThreshold">(channel, {
+        type: "autoThreshold",
+        category: props.category,
+        rows: props.data.index,
+        field: props.filterSettings.field,
+        autoThreshold: auto,
+      });
+      if (!result) {
+        setError(`Field "${props.filterSettings.field}" is not present in the data.`);
+      } else {
+        props.updateFilterSettings((settings) => {
+          // only the derived bounds are replaced, the other bound is kept as it is
+          if (auto.bounds !== "upper") settings.cutoffMin = round(result.cutoffMin);
+          if (auto.bounds !== "lower") settings.cutoffMax = round(result.cutoffMax);
+
+          if (result.sampleCutoffs) {
+            const sampleCutoffs = { ...settings.sampleCutoffs };
+            for (const [sample, cutoffs] of Object.entries(result.sampleCutoffs)) {
+              sampleCutoffs[sample] = { ...sampleCutoffs[sample] };
+              if (auto.bounds !== "upper") sampleCutoffs[sample].cutoffMin = round(cutoffs.cutoffMin);
+              if (auto.bounds !== "lower") sampleCutoffs[sample].cutoffMax = round(cutoffs.cutoffMax);
+            }
+            settings.sampleCutoffs = sampleCutoffs;
+          }
+
+          settings.autoThreshold = { ...auto };
+          return settings;
+        });
+      }
+      setIsComputing(false);
+    } catch (err) {
+      // a newer request is already being computed
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      setError(String(err));
+      setIsComputing(false);
+    }
+  };
+
+  return (
+    <div class="col-span-2 mt-2 pt-2 border-t">
+      <div class="text-sm font-medium mb-2">Auto threshold</div>
+      <div class="grid grid-cols-2 gap-2">
+        <Select
+          value={params().method}
+          onChange={(value) => value && updateParams({ method: value })}
+          options={Object.keys(methodLabels) as AutoThreshold["method"][]}
+          itemComponent={(props) => (
+            <SelectItem item={props.item}>
+              {methodLabels[props.item.rawValue]}
+            </SelectItem>
+          )}
+        >
+          <Label>Method</Label>
+          <SelectTrigger aria-label="Select threshold method">
+            <SelectValue<AutoThreshold["method"]>>
+              {(state) => methodLabels[state.selectedOption()]}
+            </SelectValue>
+          </SelectTrigger>
+          <SelectContent />
+        </Select>
+        <Select
+          value={params().bounds}
+          onChange={(value) => value && updateParams({ bounds: value })}
+          options={Object.keys(boundLabels) as AutoThreshold["bounds"][]}
+          itemComponent={(props) => (
+            <SelectItem item={props.item}>
+              {boundLabels[props.item.rawValue]}
+            </SelectItem>
+          )}
+        >
+          <Label>Thresholds</Label>
+          <SelectTrigger aria-label="Select which thresholds to derive">
+            <SelectValue<AutoThreshold["bounds"]>>
+              {(state) => boundLabels[state.selectedOption()]}
+            </SelectValue>
+          </SelectTrigger>
+          <SelectContent />
+        </Select>
+
+        <Show
+          when={params().method === "percentile"}
+          fallback={
+            <NumberField value={params().k} onChange={(value) => updateParams({ k: value })}>
+              <TextFieldLabel>k</TextFieldLabel>
+              <TextFieldInput />
+            </NumberField>
+          }
+        >
+          <NumberField
+            value={params().lowerPercentile}
+            onChange={(value) => updateParams({ lowerPercentile: value })}
+          >
+            <TextFieldLabel>Lower percentile</TextFieldLabel>
+            <TextFieldInput />
+          </NumberField>
+          <NumberField
+            value={params().upperPercentile}
+            onChange={(value) => updateParams({ upperPercentile: value })}
+          >
+            <TextFieldLabel>Upper percentile</TextFieldLabel>
+            <TextFieldInput />
+          </NumberField>
+        </Show>
+
+        <div class="col-span-2 flex items-center">
+          <input
+            type="checkbox"
+            id={`${channel}-per-sample`}
+            checked={params().perSample}
+            onChange={(e) => updateParams({ perSample: e.target.checked })}
+            class="mr-2 h-4 w-4"
+          />
+          <label for={`${channel}-per-sample`} class="text-sm">
+            Derive thresholds for each sample separately
+          </label>
+        </div>
+
+        <div class="col-span-2 flex items-center gap-2">
+          <button
+            type="button"
+            onClick={applyThreshold}
+            disabled={isComputing()}
+            class="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isComputing() ? "Computing..." : "Compute thresholds"}
+          </button>
+          <Show when={error()}>
+            <span class="text-sm text-red-600">{error()}</span>
+          </Show>
+        </div>
+
+        <Show when={props.filterSettings.autoThreshold}>
+          {(auto) => (
+            <div class="col-span-2 text-sm text-gray-600">
+              Derived from {describeAutoThreshold(auto())}:
+              {" "}min {props.filterSettings.cutoffMin ?? "-"}, max {props.filterSettings.cutoffMax ?? "-"}
+              <Show when={auto().perSample && props.filterSettings.sampleCutoffs}>
+                {" "}(sample thresholds are listed under the per-sample thresholds)
+              </Show>
+            </div>
+          )}
+        </Show>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { createSignal, For, Show } from "solid-js";
+import { categoryCounts, columnCategories, getColumn } from "~/lib/column-utils";
+import { createComputeResource } from "~/lib/compute-service";
+import { QC_STATUS_COLUMN } from "~/lib/filter-engine";
+import { CategorySelection, FilterSettings, RawData, RawDataCategory } from "~/types";
+
+type Props = {
+  filterSettings: FilterSettings;
+  updateFilterSettings: (fn: (settings: FilterSettings) => FilterSettings) => void;
+  data: RawDataCategory;
+  category: keyof RawData;
+  onRemove: () => void;
+};
+
+const modeLabels: Record<CategorySelection["mode"], string> = {
+  include: "Keep only the checked categories",
+  exclude: "Remove the checked categories",
+};
+
+// Boolean columns are filtered on a single value, "any" lets all cells through
+const booleanOptions = ["any", "true", "false"] as const;
+
+const booleanLabels: Record<typeof booleanOptions[number], string> = {
+  any: "Keep all cells",
+  true: "Keep cells where true",
+  false: "Keep cells where false",
+};
+
+// Categories of a categorical or boolean column that pass, with the number of cells in each category
+export function CategoryFilterForm(props: Props) {
+  const column = () => getColumn(props.data, props.filterSettings.field);
+  const isBoolean = () => column()?.dtype === "boolean";
+  const categories = () => {
+    const col = column();
+    return col ? columnCategories(col) ?? [] : [];
+  };
+  const counts = () => {
+    const col = column();
+    return col ? categoryCounts(props.data, col) : [];
+  };
+  const selection = () => props.filterSettings.categorySelection;
+
+  // Number of cells removed by this filter on its own
+  const [removed] = createComputeResource(() => ({
+    type: "removedCount" as const,
+    category: props.category,
+    rows: props.data.index,
+    // the settings store can not be sent to the worker, so a plain copy is made
+    filter: JSON.parse(JSON.stringify(props.filterSettings)),
+  }));
+  const removedCells = () => removed.latest ?? 0;
+
+  const setSelection = (value: CategorySelection | undefined) =>
+    props.updateFilterSettings((settings) => {
+      settings.categorySelection = value;
+      return settings;
+    });
+
+  const toggle = (name: string, checked: boolean) => {
+    const selected = (selection()?.selected ?? []).filter(other => other !== name);
+    setSelection({ mode: selection()?.mode ?? "exclude", selected: checked ? [...selected, name] : selected });
+  };
+
+  const booleanValue = () => {
+    const current = selection();
+    return current?.mode === "include" && current.selected.length === 1 ? current.selected[0] as "true" | "false" : "any";
+  };
+
+  return (
+    <div class="flex flex-col gap-2 p-2 bg-gray-50 rounded-md border text-sm">
+      <Show
+        when={!isBoolean()}
+        fallback={
+          <select
+            class="h-8 w-fit rounded-md border border-input bg-background px-2 text-sm"
+            value={booleanValue()}
+            onChange={(e) => {
+              const value = e.currentTarget.value;
+              setSelection(value === "any" ? undefined : { mode: "include", selected: [value] });
+            }}
+            aria-label="Cells that pass"
+          >
+            <For each={booleanOptions}>
+              {(option) => <option value={option}>{booleanLabels[option]}</option>}
+            </For>
+          </select>
+        }
+      >
+        <div class="flex items-center gap-2">
+          <select
+            class="h-8 rounded-md border border-input bg-background px-2 text-sm"
+            value={selection()?.mode ?? "exclude"}
+            onChange={(e) =>
+              setSelection({ mode: e.currentTarget.value as CategorySelection["mode"], selected: selection()?.selected ?? [] })
+            }
+            aria-label="Mode"
+          >
+            <option value="include">{modeLabels.include}</option>
+            <option value="exclude">{modeLabels.exclude}</option>
+          </select>
+          <button
+            type="button"
+            onClick={() => setSelection(undefined)}
+            disabled={!selection()}
+            class="px-2 py-1 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            Clear
+          </button>
+        </div>
+        <div class="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-1 max-h-64 overflow-y-auto">
+          <For each={categories()}>
+            {(name, i) => (
+              <label class="inline-flex items-center gap-2" classList={{ "text-gray-400": counts()[i()] === 0 }}>
+                <input
+                  type="checkbox"
+                  checked={selection()?.selected.includes(name) ?? false}
+                  onChange={(e) => toggle(name, e.currentTarget.checked)}
+                />
+                <span class="truncate" title={name}>{name}</span>
+                <span class="text-gray-500">({counts()[i()]})</span>
+              </label>
+            )}
+          </For>
+        </div>
+      </Show>
+      <div class="flex items-center gap-4">
+        <span class="text-gray-600">
+          Removing {removedCells()} of {props.data.num_rows} cells
+        </span>
+        <button
+          type="button"
+          onClick={props.onRemove}
+          class="px-2 py-1 text-red-700 rounded-md hover:bg-red-50"
+        >
+          Remove filter
+        </button>
+      </div>
+    </div>
+  );
+}
+
+type AddProps = {
+  data: RawDataCategory;
+  // columns that already have a category filter
+  filteredFields: string[];
+  onAdd: (field: string) => void;
+};
+
+// Add a filter on the categories of a categorical or boolean column
+export function AddCategoryFilter(props: AddProps) {
+  const [field, setField] = createSignal("");
+
+  const fields = () => props.data.columns
+    .filter(col => col.dtype === "categorical" || col.dtype === "boolean")
+    // the QC status is derived from the filters themselves
+    .filter(col => col.name !== QC_STATUS_COLUMN && !props.filteredFields.includes(col.name))
+    .map(col => col.name);
+
+  return (
+    <Show when={fields().length > 0}>
+      <form
+        class="flex items-center gap-2 p-2 bg-gray-50 rounded-md border text-sm"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!fields().includes(field())) return;
+          props.onAdd(field());
+          setField("");
+        }}
+      >
+        <select
+          class="h-8 rounded-md border border-input bg-background px-2 text-sm"
+          value={field()}
+          onChange={(e) => setField(e.currentTarget.value)}
+          aria-label="Column"
+        >
+          <option value="">Choose a column</option>
+          <For each={fields()}>
+            {(name) => <option value={name}>{name}</option>}
+          </For>
+        </select>
+        <button
+          type="submit"
+          disabled={!fields().includes(field())}
+          class="px-2 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Add filter
+        </button>
+      </form>
+    </Show>
+  );
+}
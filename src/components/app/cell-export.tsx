@@ -0,0 +1,77 @@
+import { createSignal, createUniqueId, onCleanup } from "solid-js";
+import { CellTableFormat } from "~/lib/cell-export";
+import { getComputeService } from "~/lib/compute-service";
+import { saveFile } from "~/lib/save-file";
+import { FilterSettings, RawDataCategory } from "~/types";
+
+type Props = {
+  // cells of the selected samples
+  data: RawDataCategory;
+  // plain copy of the applied filter settings, undefined while no filters are applied
+  filters?: FilterSettings[];
+  excludedSamples: string[];
+};
+
+const fileTypes: Record<CellTableFormat, { description: string; accept: Record<string, string[]> }> = {
+  csv: { description: "CSV files", accept: { "text/csv": [".csv"] } },
+  tsv: { description: "TSV files", accept: { "text/tab-separated-values": [".tsv"] } },
+};
+
+// Export the cells with whether they pass the applied filters, e.g. to subset an AnnData object downstream
+export function CellExport(props: Props) {
+  const [format, setFormat] = createSignal<CellTableFormat>("csv");
+  const [isExporting, setIsExporting] = createSignal(false);
+
+  const compute = getComputeService();
+  const channel = createUniqueId();
+  onCleanup(() => compute.cancel(channel));
+
+  const exportCells = async () => {
+    if (!props.filters) return;
+    const selectedFormat = format();
+    setIsExporting(true);
+    try {
+      const table = await compute.request<"cellTable">(channel, {
+        type: "cellTable",
+        category: "cell_rna_stats",
+        rows: props.data.index,
+        filters: props.filters,
+        excludedSamples: props.excludedSamples,
+        format: selectedFormat,
+      });
+      const type = Object.keys(fileTypes[selectedFormat].accept)[0];
+      await saveFile(new Blob([table], { type }), `qc_cells.${selectedFormat}`, fileTypes[selectedFormat]);
+    } catch (err) {
+      // a newer export is already being computed
+      if (!(err instanceof DOMException && err.name === "AbortError")) {
+        alert("Failed to export the cells. " + err);
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div class="flex">
+      <button
+        onClick={exportCells}
+        disabled={!props.filters || isExporting()}
+        class="px-4 py-2 bg-green-600 text-white rounded-l-md hover:bg-green-700 transition-colors disabled:opacity-50"
+        title={props.filters
+          ? "Export the cells with whether they pass the applied filters and the filters they fail"
+          : "Apply the filters to export the cells that pass them"}
+      >
+        {isExporting() ? "Exporting..." : "Export Cells"}
+      </button>
+      <select
+        class="rounded-r-md border border-l-0 border-input bg-background px-2 text-sm"
+        value={format()}
+        onChange={(e) => setFormat(e.currentTarget.value as CellTableFormat)}
+        aria-label="Cell export format"
+      >
+        <option value="csv">CSV</option>
+        <option value="tsv">TSV</option>
+      </select>
+    </div>
+  );
+}
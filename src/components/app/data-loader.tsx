@@ -0,0 +1,121 @@
+import { createSignal, Show } from "solid-js";
+import { RawData, ReportStructure } from "~/types";
+import { parseDataFile } from "~/lib/get-data";
+
+type DataLoaderProps = {
+  // name is the name of the data file
+  onLoad: (data: RawData, structure: ReportStructure | undefined, name: string) => void;
+  hasData: boolean;
+};
+
+// Structure files are recognised by their top-level "categories" entry
+function isReportStructure(value: any): value is ReportStructure {
+  return value && Array.isArray(value.categories);
+}
+
+export function DataLoader(props: DataLoaderProps) {
+  const [isDragging, setIsDragging] = createSignal(false);
+  const [isLoading, setIsLoading] = createSignal(false);
+  const [error, setError] = createSignal<string>();
+  const [isExpanded, setIsExpanded] = createSignal(false);
+
+  const loadFiles = async (files: FileList | null | undefined) => {
+    if (!files || files.length === 0) return;
+    setError(undefined);
+    setIsLoading(true);
+
+    try {
+      let data: RawData | undefined;
+      let dataFile: File | undefined;
+      let structure: ReportStructure | undefined;
+      let structureFile: File | undefined;
+
+      // one dataset is loaded at a time, extra files are reported rather than ignored
+      for (const file of Array.from(files)) {
+        const parsed = await parseDataFile<RawData | ReportStructure>(file);
+        if (isReportStructure(parsed)) {
+          if (structureFile) {
+            throw new Error(`Both ${structureFile.name} and ${file.name} are structure files. Please provide one structure file.`);
+          }
+          structure = parsed;
+          structureFile = file;
+        } else {
+          if (dataFile) {
+            throw new Error(`Both ${dataFile.name} and ${file.name} are data files. Please provide one data file at a time.`);
+          }
+          data = parsed as RawData;
+          dataFile = file;
+        }
+      }
+
+      if (!data || !dataFile) {
+        throw new Error("No dataset found. Please provide a data file, optionally together with a structure file.");
+      }
+
+      props.onLoad(data, structure, dataFile.name);
+      setIsExpanded(false);
+    } catch (err) {
+      console.error("Error loading dataset:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div class="border p-4 rounded-md bg-gray-50 mb-4">
+      <div class="flex justify-between items-center">
+        <h3 class="text-lg font-medium">Dataset</h3>
+        <Show when={props.hasData}>
+          <button
+            type="button"
+            onClick={() => setIsExpanded(!isExpanded())}
+            class="px-3 py-1.5 text-sm bg-blue-50 hover:bg-blue-100 border border-blue-200 rounded-md transition-colors"
+          >
+            {isExpanded() ? "Cancel" : "Load other dataset"}
+          </button>
+        </Show>
+      </div>
+
+      <Show when={!props.hasData || isExpanded()}>
+        <label
+          class={`mt-4 flex flex-col items-center justify-center p-8 border-2 border-dashed rounded-md cursor-pointer transition-colors ${
+            isDragging() ? "border-blue-500 bg-blue-50" : "border-gray-300 bg-white hover:bg-gray-100"
+          }`}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            loadFiles(e.dataTransfer?.files);
+          }}
+        >
+          <span class="text-sm font-medium text-gray-700">
+            {isLoading() ? "Reading dataset..." : "Drop a data file here, or click to select one"}
+          </span>
+          <span class="mt-1 text-xs text-gray-500">
+            Accepts data.json, msgpack+gzip or base64 files. Add a structure file to the selection to control which plots are shown.
+          </span>
+          <input
+            type="file"
+            multiple
+            class="hidden"
+            onChange={(e) => {
+              loadFiles(e.currentTarget.files);
+              e.currentTarget.value = "";
+            }}
+          />
+        </label>
+      </Show>
+
+      <Show when={error()}>
+        <div class="mt-3 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {error()}
+        </div>
+      </Show>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import {
   TableHeader,
   TableRow,
 } from "~/components/ui/table";
+import { rowAt } from "~/lib/column-utils";
 import { RawDataCategory } from "~/types";
 
 type ShowDataSummaryProps = {
@@ -35,14 +36,17 @@ export function DataSummaryTable(props: ShowDataSummaryProps) {
             <TableRow>
               <TableCell>{col.name}</TableCell>
               <TableCell>{col.dtype}</TableCell>
-              <TableCell>{col.data.length}</TableCell>
+              <TableCell>{props.data.num_rows}</TableCell>
               <TableCell>{col.categories?.length}</TableCell>
               <TableCell>
                 {col.categories
                   ? "[" +
                     col.categories!.slice(0, 2).join(", ") +
                     ", ...]"
-                  : "[" + col.data.slice(0, 2).join(", ") + ", ...]"}
+                  : "[" + Array.from(
+                      { length: Math.min(2, props.data.num_rows) },
+                      (_, i) => col.data[rowAt(props.data, i)]
+                    ).join(", ") + ", ...]"}
               </TableCell>
             </TableRow>
           )}
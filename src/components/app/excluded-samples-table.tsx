@@ -0,0 +1,38 @@
+import { For } from "solid-js";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { SampleExclusion } from "~/lib/filter-engine";
+
+type Props = {
+  exclusions: SampleExclusion[];
+};
+
+// Samples left out of the report by the sample-level filters, with the metrics they fail
+export function ExcludedSamplesTable(props: Props) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Sample</TableHead>
+          <TableHead>Failed filters</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        <For each={props.exclusions}>
+          {(exclusion) => (
+            <TableRow>
+              <TableCell>{exclusion.sample}</TableCell>
+              <TableCell>{exclusion.reasons.join(", ")}</TableCell>
+            </TableRow>
+          )}
+        </For>
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,160 @@
+import { createSignal, Show } from "solid-js";
+import { expressionColumns, validateExpression } from "~/lib/expression";
+import { createComputeResource } from "~/lib/compute-service";
+import { ExpressionFilter, FilterSettings, RawData, RawDataCategory } from "~/types";
+
+const actionLabels: Record<ExpressionFilter["action"], string> = {
+  remove: "Remove cells where",
+  keep: "Keep cells where",
+};
+
+type ConditionInputProps = {
+  action: ExpressionFilter["action"];
+  onActionChange: (action: ExpressionFilter["action"]) => void;
+  condition: string;
+  onConditionChange: (condition: string) => void;
+  // the error of the condition, shown below the input
+  error?: string;
+};
+
+function ConditionInput(props: ConditionInputProps) {
+  return (
+    <>
+      <div class="flex flex-wrap items-center gap-2">
+        <select
+          class="h-8 rounded-md border border-input bg-background px-2 text-sm"
+          value={props.action}
+          onChange={(e) => props.onActionChange(e.currentTarget.value as ExpressionFilter["action"])}
+          aria-label="Action"
+        >
+          <option value="remove">{actionLabels.remove}</option>
+          <option value="keep">{actionLabels.keep}</option>
+        </select>
+        <input
+          type="text"
+          value={props.condition}
+          onInput={(e) => props.onConditionChange(e.currentTarget.value)}
+          placeholder='e.g. pct_mito > 20 and sample_id in ["a", "b"]'
+          aria-label="Condition"
+          aria-invalid={props.error !== undefined}
+          spellcheck={false}
+          class="flex-1 min-w-64 px-2 py-1 font-mono text-sm border rounded-md"
+          classList={{ "border-red-500": props.error !== undefined }}
+        />
+      </div>
+      <Show when={props.error}>
+        <p class="text-sm text-red-600">{props.error}</p>
+      </Show>
+    </>
+  );
+}
+
+type Props = {
+  filterSettings: FilterSettings;
+  updateFilterSettings: (fn: (settings: FilterSettings) => FilterSettings) => void;
+  data: RawDataCategory;
+  category: keyof RawData;
+  onRemove: () => void;
+};
+
+// Settings of an expression filter, changes to the condition are kept in the settings once they are valid
+export function ExpressionFilterForm(props: Props) {
+  const expression = () => props.filterSettings.expression!;
+  const [condition, setCondition] = createSignal(expression().condition);
+  const error = () => validateExpression(condition(), props.data);
+
+  // Number of cells removed by this filter on its own
+  const [removed] = createComputeResource(() => ({
+    type: "removedCount" as const,
+    category: props.category,
+    rows: props.data.index,
+    // the settings store can not be sent to the worker, so a plain copy is made
+    filter: JSON.parse(JSON.stringify(props.filterSettings)),
+  }));
+  const removedCells = () => removed.latest ?? 0;
+
+  return (
+    <div class="flex flex-col gap-2 p-2 bg-gray-50 rounded-md border text-sm">
+      <ConditionInput
+        action={expression().action}
+        onActionChange={(action) =>
+          props.updateFilterSettings((settings) => {
+            settings.expression!.action = action;
+            return settings;
+          })
+        }
+        condition={condition()}
+        onConditionChange={(value) => {
+          setCondition(value);
+          if (validateExpression(value, props.data)) return;
+          props.updateFilterSettings((settings) => {
+            settings.expression!.condition = value;
+            settings.field = expressionColumns(value)[0] ?? "";
+            return settings;
+          });
+        }}
+        error={error()}
+      />
+      <div class="flex items-center gap-4">
+        <span class="text-gray-600">
+          <Show when={error()} fallback={<>Removing {removedCells()} of {props.data.num_rows} cells</>}>
+            Still removing {removedCells()} of {props.data.num_rows} cells with the last valid condition
+          </Show>
+        </span>
+        <button
+          type="button"
+          onClick={props.onRemove}
+          class="px-2 py-1 text-red-700 rounded-md hover:bg-red-50"
+        >
+          Remove filter
+        </button>
+      </div>
+    </div>
+  );
+}
+
+type AddProps = {
+  data: RawDataCategory;
+  onAdd: (condition: string, action: ExpressionFilter["action"]) => void;
+};
+
+// Add a filter on a condition over any columns of the data
+export function AddExpressionFilter(props: AddProps) {
+  const [condition, setCondition] = createSignal("");
+  const [action, setAction] = createSignal<ExpressionFilter["action"]>("remove");
+  // only complain about the condition once something was typed
+  const error = () => condition().trim() === "" ? undefined : validateExpression(condition(), props.data);
+
+  return (
+    <form
+      class="flex flex-col gap-2 p-2 bg-gray-50 rounded-md border text-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (condition().trim() === "" || error()) return;
+        props.onAdd(condition(), action());
+        setCondition("");
+      }}
+    >
+      <ConditionInput
+        action={action()}
+        onActionChange={setAction}
+        condition={condition()}
+        onConditionChange={setCondition}
+        error={error()}
+      />
+      <div class="flex items-center gap-4">
+        <span class="text-xs text-gray-500">
+          Compare columns with ==, !=, &lt;, &lt;=, &gt;, &gt;= or in [...] and combine conditions with and, or and not.
+          Write column names with other characters in backticks.
+        </span>
+        <button
+          type="submit"
+          disabled={condition().trim() === "" || error() !== undefined}
+          class="px-2 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Add filter
+        </button>
+      </div>
+    </form>
+  );
+}
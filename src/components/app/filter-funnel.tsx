@@ -0,0 +1,136 @@
+import Plot from "~/components/plot";
+import { For, Show } from "solid-js";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { BusyIndicator } from "~/components/busy-indicator";
+import { H3 } from "~/components/heading";
+import { createComputeResource } from "~/lib/compute-service";
+import { funnelSampleData, funnelSampleLayout, plotlyConfig, plotTitle } from "~/lib/plots";
+import { FilterSettings, RawData, RawDataCategory } from "~/types";
+
+type Props = {
+  data: RawDataCategory;
+  category: keyof RawData;
+  // plain copy of the filter settings, the settings store can not be sent to the compute worker
+  filters: FilterSettings[];
+};
+
+const percentage = (count: number, total: number) =>
+  total > 0 ? `${(100 * count / total).toFixed(1)}%` : "-";
+
+// Cells removed by each filter when the filters are applied in order, in total and per sample
+export function FilterFunnel(props: Props) {
+  const [funnel] = createComputeResource(() => ({
+    type: "funnel" as const,
+    category: props.category,
+    rows: props.data.index,
+    filters: props.filters,
+  }));
+
+  // the filters may have changed since the funnel was computed
+  const stepNames = () => funnel.latest?.filters.map(i => {
+    const filter = props.filters[i];
+    return filter ? plotTitle(filter) ?? filter.field : "";
+  }) ?? [];
+
+  // cells remaining after each step
+  const remaining = () => {
+    const result = funnel.latest;
+    if (!result) return [];
+    let numRemaining = result.numRows;
+    return result.removed.map(numRemoved => numRemaining -= numRemoved);
+  };
+
+  return (
+    <BusyIndicator busy={funnel.loading}>
+      <Show when={funnel.latest}>
+        {(result) => (
+          <Show
+            when={result().filters.length > 0}
+            fallback={<p class="text-sm text-gray-600">None of the filters remove any cells.</p>}
+          >
+            <H3>Cells removed per filter</H3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Step</TableHead>
+                  <TableHead>Filter</TableHead>
+                  <TableHead>Removed</TableHead>
+                  <TableHead>Remaining</TableHead>
+                  <TableHead>% Remaining</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  <TableCell>0</TableCell>
+                  <TableCell>Before filtering</TableCell>
+                  <TableCell>-</TableCell>
+                  <TableCell>{result().numRows}</TableCell>
+                  <TableCell>{percentage(result().numRows, result().numRows)}</TableCell>
+                </TableRow>
+                <For each={stepNames()}>
+                  {(name, step) => (
+                    <TableRow>
+                      <TableCell>{step() + 1}</TableCell>
+                      <TableCell>{name}</TableCell>
+                      <TableCell>{result().removed[step()]}</TableCell>
+                      <TableCell>{remaining()[step()]}</TableCell>
+                      <TableCell>{percentage(remaining()[step()], result().numRows)}</TableCell>
+                    </TableRow>
+                  )}
+                </For>
+              </TableBody>
+            </Table>
+
+            <Show when={result().samples.length > 0}>
+              <H3>Cells removed per sample</H3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Sample</TableHead>
+                    <TableHead>Cells</TableHead>
+                    <For each={stepNames()}>
+                      {(name) => <TableHead>{name}</TableHead>}
+                    </For>
+                    <TableHead>Retained</TableHead>
+                    <TableHead>% Retained</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <For each={result().samples}>
+                    {(sample) => {
+                      const retained = () => sample.numRows - sample.removed.reduce((sum, n) => sum + n, 0);
+                      return (
+                        <TableRow>
+                          <TableCell>{sample.sample}</TableCell>
+                          <TableCell>{sample.numRows}</TableCell>
+                          <For each={sample.removed}>
+                            {(numRemoved) => <TableCell>{numRemoved}</TableCell>}
+                          </For>
+                          <TableCell>{retained()}</TableCell>
+                          <TableCell>{percentage(retained(), sample.numRows)}</TableCell>
+                        </TableRow>
+                      );
+                    }}
+                  </For>
+                </TableBody>
+              </Table>
+              <Plot
+                data={funnelSampleData(result(), stepNames())}
+                layout={funnelSampleLayout(result().samples.length)}
+                config={plotlyConfig()}
+                useResizeHandler={true}
+              />
+            </Show>
+          </Show>
+        )}
+      </Show>
+    </BusyIndicator>
+  );
+}
@@ -0,0 +1,92 @@
+import { createSignal, For, Show } from "solid-js";
+import { importFilters } from "~/lib/filter-import";
+import { hasErrors, ValidationIssue } from "~/lib/validate-data";
+import { RawData, Settings } from "~/types";
+
+type Props = {
+  settings: Settings;
+  data?: RawData;
+  onImport: (settings: Settings, applyToPlots: boolean) => void;
+};
+
+type ImportReport = {
+  fileName: string;
+  numUpdated: number;
+  issues: ValidationIssue[];
+};
+
+export function FilterImport(props: Props) {
+  const [applyToPlots, setApplyToPlots] = createSignal(false);
+  const [report, setReport] = createSignal<ImportReport>();
+  let fileInput: HTMLInputElement | undefined;
+
+  const handleFile = async (file: File) => {
+    const imported = importFilters(await file.text(), props.settings, props.data);
+    setReport({ fileName: file.name, numUpdated: imported.numUpdated, issues: imported.issues });
+
+    // nothing is changed when the file contains errors
+    if (!hasErrors(imported.issues)) {
+      props.onImport(imported.settings, applyToPlots());
+    }
+  };
+
+  return (
+    <div class="mt-2">
+      <div class="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => fileInput?.click()}
+          class="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+        >
+          Import Filters
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".yaml,.yml,.json"
+          class="hidden"
+          onChange={(e) => {
+            const file = e.currentTarget.files?.[0];
+            // allow importing the same file again after it has been edited
+            e.currentTarget.value = "";
+            if (file) handleFile(file);
+          }}
+        />
+        <input
+          type="checkbox"
+          id="import-apply-filters"
+          checked={applyToPlots()}
+          onChange={(e) => setApplyToPlots(e.target.checked)}
+          class="h-4 w-4"
+        />
+        <label for="import-apply-filters" class="text-sm">
+          Apply imported filters to plots
+        </label>
+      </div>
+
+      <Show when={report()}>
+        {(report) => (
+          <div class="mt-2 p-3 bg-gray-50 border rounded-md text-sm">
+            <Show
+              when={!hasErrors(report().issues)}
+              fallback={<p class="font-medium text-red-800">Could not import '{report().fileName}', no filters were changed.</p>}
+            >
+              <p class="font-medium">
+                Imported the thresholds of {report().numUpdated} filter(s) from '{report().fileName}'.
+              </p>
+            </Show>
+            <ul class="mt-1 space-y-1">
+              <For each={report().issues}>
+                {(issue) => (
+                  <li class={issue.severity === "error" ? "text-red-700" : "text-amber-700"}>
+                    <span class="font-mono">{issue.path}</span>: {issue.message}
+                  </li>
+                )}
+              </For>
+            </ul>
+          </div>
+        )}
+      </Show>
+    </div>
+  );
+}
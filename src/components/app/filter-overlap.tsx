@@ -0,0 +1,88 @@
+import Plot from "~/components/plot";
+import { createSignal, For, Show } from "solid-js";
+import { BusyIndicator } from "~/components/busy-indicator";
+import { H3 } from "~/components/heading";
+import { getColumn, uniqueValues } from "~/lib/column-utils";
+import { createComputeResource } from "~/lib/compute-service";
+import { filterData } from "~/lib/data-filters";
+import { plotlyConfig, plotTitle, upsetData, upsetIntersections, upsetLayout } from "~/lib/plots";
+import { FilterSettings, RawData, RawDataCategory } from "~/types";
+
+type Props = {
+  data: RawDataCategory;
+  category: keyof RawData;
+  // plain copy of the filter settings, the settings store can not be sent to the compute worker
+  filters: FilterSettings[];
+};
+
+// UpSet plot of the cells failing each filter, to see whether filters remove the same cells
+export function FilterOverlap(props: Props) {
+  const [sample, setSample] = createSignal("");
+
+  const samples = () => {
+    const sampleColumn = getColumn(props.data, "sample_id");
+    if (!sampleColumn?.categories) return [];
+    return uniqueValues(props.data, sampleColumn).map(code => sampleColumn.categories![code]);
+  };
+
+  // restrict the cells to the selected sample, the sample may no longer be part of the data
+  const cells = () => sample() && samples().includes(sample())
+    ? filterData({ [props.category]: props.data }, [sample()])![props.category]
+    : props.data;
+
+  const [overlap] = createComputeResource(() => ({
+    type: "overlap" as const,
+    category: props.category,
+    rows: cells().index,
+    filters: props.filters,
+  }));
+
+  // the filters may have changed since the overlap was computed
+  const setNames = () => overlap.latest?.filters.map(i => {
+    const filter = props.filters[i];
+    return filter ? plotTitle(filter) ?? filter.field : "";
+  }) ?? [];
+
+  return (
+    <div>
+      <div class="flex items-center gap-4">
+        <H3>Overlap of the failing cells</H3>
+        <Show when={samples().length > 1}>
+          <select
+            class="h-8 rounded-md border border-input bg-background px-2 text-sm"
+            value={sample()}
+            onChange={(e) => setSample(e.currentTarget.value)}
+            aria-label="Sample"
+          >
+            <option value="">All samples</option>
+            <For each={samples()}>
+              {(name) => <option value={name}>{name}</option>}
+            </For>
+          </select>
+        </Show>
+      </div>
+      <BusyIndicator busy={overlap.loading}>
+        <Show when={overlap.latest}>
+          {(result) => (
+            <Show
+              when={result().intersections.length > 0}
+              fallback={<p class="text-sm text-gray-600">None of the filters remove any cells.</p>}
+            >
+              <Show when={result().intersections.length > upsetIntersections(result()).length}>
+                <p class="text-xs text-gray-500">
+                  Showing the {upsetIntersections(result()).length} largest of {result().intersections.length} intersections.
+                </p>
+              </Show>
+              <Plot
+                data={upsetData(result(), setNames())}
+                layout={upsetLayout(result(), setNames())}
+                config={plotlyConfig()}
+                useResizeHandler={true}
+              />
+            </Show>
+          )}
+        </Show>
+      </BusyIndicator>
+    </div>
+  );
+}
@@ -12,10 +12,13 @@ import {
   CardHeader,
   CardTitle,
 } from "~/components/ui/small-card";
-import { FilterSettings, RawDataCategory, RawData } from "~/types";
+import { FilterSettings, RawDataCategory, RawData, SampleCutoffs } from "~/types";
 import { TextFieldInput, TextFieldLabel } from "../ui/text-field";
 import { NumberField } from "../number-field";
-import { createSignal, Show } from "solid-js";
+import { AutoThresholdForm } from "./auto-threshold-form";
+import { createComputeResource } from "~/lib/compute-service";
+import { getColumn, uniqueValues } from "~/lib/column-utils";
+import { createSignal, For, Show } from "solid-js";
 
 // Update the props to include the global group by, force group by, and isGlobalGroupingEnabled
 type Props = {
@@ -30,6 +33,7 @@ type Props = {
 
 export function FilterSettingsForm(props: Props) {
   const [isExpanded, setIsExpanded] = createSignal(false);
+  const [showSampleCutoffs, setShowSampleCutoffs] = createSignal(false);
   
   // Get all categorical columns from the data
   const getCategoricalColumns = () => {
@@ -41,7 +45,12 @@ export function FilterSettingsForm(props: Props) {
     return ["<none>", ...categoricalColumns];
   };
 
-  // Remove getNumericalColumns() function as it's no longer needed
+  // Metrics that can be put on the Y axis of a scatter plot
+  const getNumericColumns = () => {
+    return props.data.columns
+      .filter(col => col.dtype === "numeric" || col.dtype === "integer")
+      .map(col => col.name);
+  };
 
   // Add a constant to check if the data has spatial coordinates
   const hasSpatialCoordinates = () => {
@@ -50,44 +59,60 @@ export function FilterSettingsForm(props: Props) {
     return hasX && hasY;
   };
 
-  // Inside the component, update this function to be more general
+  // Cells are filtered one by one, the other categories hold sample-level metrics
+  const isCellLevel = () => props.category === "cell_rna_stats";
+
+  // Number of cells (or samples) removed by this filter on its own, computed while the settings are shown
+  const [removed] = createComputeResource(() => isExpanded() && props.category ? {
+    type: "removedCount" as const,
+    category: props.category,
+    rows: props.data.index,
+    // the settings store can not be sent to the worker, so a plain copy is made
+    filter: JSON.parse(JSON.stringify(props.filterSettings)),
+  } : undefined);
+
   const getFilterImpact = () => {
-    // Only apply for cell_rna_stats category with thresholds set
-    if (props.category !== 'cell_rna_stats' || 
-        (props.filterSettings.cutoffMin === undefined && props.filterSettings.cutoffMax === undefined)) {
-      return null;
-    }
-    
-    const cellsData = props.data;
-    if (!cellsData || !cellsData.columns) return null;
-    
-    const field = props.filterSettings.field;
-    const min = props.filterSettings.cutoffMin;
-    const max = props.filterSettings.cutoffMax;
-    
-    const colIndex = cellsData.columns.findIndex(c => c.name === field);
-    if (colIndex < 0) return null;
-    
-    const colData = cellsData.columns[colIndex].data;
-    const totalCells = colData.length;
-    let affectedCount = 0;
-    
-    for (let i = 0; i < totalCells; i++) {
-      const val = colData[i];
-      if ((min !== undefined && val < min) || (max !== undefined && val > max)) {
-        affectedCount++;
-      }
-    }
-    
+    const affectedCount = removed.latest;
+    if (affectedCount === undefined) return null;
+
+    const totalCells = props.data.num_rows;
     const percent = Math.round((affectedCount / totalCells) * 100);
     const isHighImpact = percent > 30;
     
     return { affectedCount, totalCells, percent, isHighImpact };
   };
   
+  // Samples present in the data, which can get their own thresholds
+  const getSamples = () => {
+    const sampleColumn = getColumn(props.data, "sample_id");
+    if (!sampleColumn?.categories) return [];
+    return uniqueValues(props.data, sampleColumn).map(code => sampleColumn.categories![code]);
+  };
+
+  const updateSampleCutoff = (sample: string, bound: keyof SampleCutoffs, value?: number) => {
+    props.updateFilterSettings((settings) => {
+      const sampleCutoffs = { ...settings.sampleCutoffs };
+      const cutoffs = { ...sampleCutoffs[sample], [bound]: value };
+      if (value === undefined) delete cutoffs[bound];
+
+      // samples without any cutoffs of their own use the global cutoffs again
+      if (cutoffs.cutoffMin === undefined && cutoffs.cutoffMax === undefined) {
+        delete sampleCutoffs[sample];
+      } else {
+        sampleCutoffs[sample] = cutoffs;
+      }
+      settings.sampleCutoffs = Object.keys(sampleCutoffs).length > 0 ? sampleCutoffs : undefined;
+      if (settings.autoThreshold?.perSample) {
+        settings.autoThreshold = undefined;
+      }
+      return settings;
+    });
+  };
+
   // Update these variable definitions
   const isBarPlot = props.filterSettings.type === "bar";
   const isHistogram = (props.filterSettings.type === "histogram" || props.filterSettings.visualizationType === "histogram");
+  const isScatter = props.filterSettings.type === "scatter";
   
   return (
     <div>
@@ -110,8 +135,8 @@ export function FilterSettingsForm(props: Props) {
               </CardHeader>
               <CardContent>
                 <div class="grid grid-cols-2 gap-2">
-                  {/* Only show Min/Max zoom fields for histograms */}
-                  <Show when={isHistogram}>
+                  {/* Only show Min/Max zoom fields for histograms and scatter plots */}
+                  <Show when={isHistogram || isScatter}>
                     <>
                       <NumberField
                         value={props.filterSettings.zoomMin}
@@ -120,7 +145,7 @@ export function FilterSettingsForm(props: Props) {
                           return settings;
                         })}
                       >
-                        <TextFieldLabel>Min</TextFieldLabel>
+                        <TextFieldLabel>{isScatter ? "X Min" : "Min"}</TextFieldLabel>
                         <TextFieldInput />
                       </NumberField>
                       <NumberField
@@ -130,51 +155,109 @@ export function FilterSettingsForm(props: Props) {
                           return settings;
                         })}
                       >
-                        <TextFieldLabel>Max</TextFieldLabel>
+                        <TextFieldLabel>{isScatter ? "X Max" : "Max"}</TextFieldLabel>
                         <TextFieldInput />
                       </NumberField>
                     </>
                   </Show>
                   
-                  {/* Remove the Y-field selection section entirely */}
-                  <div class="relative">
-                    <Select
-                      value={props.forceGroupBy || (props.isGlobalGroupingEnabled && props.globalGroupBy) || props.filterSettings.groupBy || "sample_id"}
-                      onChange={(value) =>
-                        props.updateFilterSettings((settings) => {
-                          settings.groupBy = value === null ? undefined : value;
+                  {/* Scatter plots show a second metric on the Y axis */}
+                  <Show when={isScatter}>
+                    <>
+                      <NumberField
+                        value={props.filterSettings.zoomMinY}
+                        onChange={(value) => props.updateFilterSettings((settings) => {
+                          settings.zoomMinY = value;
                           return settings;
-                        })
-                      }
-                      options={getCategoricalColumns()}
-                      itemComponent={(props) => (
-                        <SelectItem item={props.item}>
-                          {props.item.rawValue}
-                        </SelectItem>
+                        })}
+                      >
+                        <TextFieldLabel>Y Min</TextFieldLabel>
+                        <TextFieldInput />
+                      </NumberField>
+                      <NumberField
+                        value={props.filterSettings.zoomMaxY}
+                        onChange={(value) => props.updateFilterSettings((settings) => {
+                          settings.zoomMaxY = value;
+                          return settings;
+                        })}
+                      >
+                        <TextFieldLabel>Y Max</TextFieldLabel>
+                        <TextFieldInput />
+                      </NumberField>
+                      <Select
+                        value={props.filterSettings.yField}
+                        onChange={(value) =>
+                          props.updateFilterSettings((settings) => {
+                            if (value === null || value === settings.yField) return settings;
+                            settings.yField = value;
+                            // the label and the cutoffs belong to the previous metric
+                            settings.yLabel = undefined;
+                            settings.cutoffMinY = undefined;
+                            settings.cutoffMaxY = undefined;
+                            settings.zoomMinY = undefined;
+                            settings.zoomMaxY = undefined;
+                            return settings;
+                          })
+                        }
+                        options={getNumericColumns()}
+                        itemComponent={(props) => (
+                          <SelectItem item={props.item}>
+                            {props.item.rawValue}
+                          </SelectItem>
+                        )}
+                      >
+                        <Label>Y Field</Label>
+                        <SelectTrigger aria-label="Select Y field">
+                          <SelectValue<string>>
+                            {(state) => state.selectedOption()}
+                          </SelectValue>
+                        </SelectTrigger>
+                        <SelectContent />
+                      </Select>
+                    </>
+                  </Show>
+                  
+                  {/* The gate of a scatter plot is drawn for all cells together */}
+                  <Show when={!isScatter}>
+                    <div class="relative">
+                      <Select
+                        value={props.forceGroupBy || (props.isGlobalGroupingEnabled && props.globalGroupBy) || props.filterSettings.groupBy || "sample_id"}
+                        onChange={(value) =>
+                          props.updateFilterSettings((settings) => {
+                            settings.groupBy = value === null ? undefined : value;
+                            return settings;
+                          })
+                        }
+                        options={getCategoricalColumns()}
+                        itemComponent={(props) => (
+                          <SelectItem item={props.item}>
+                            {props.item.rawValue}
+                          </SelectItem>
+                        )}
+                        disabled={!!(props.forceGroupBy || (props.isGlobalGroupingEnabled && props.globalGroupBy))}
+                      >
+                        <Label>
+                          Group By {props.forceGroupBy ? "(Fixed)" : (props.isGlobalGroupingEnabled && props.globalGroupBy) ? "(Global)" : ""}
+                        </Label>
+                        <SelectTrigger aria-label="Select grouping column">
+                          <SelectValue<string>>
+                            {(state) => state.selectedOption()}
+                          </SelectValue>
+                        </SelectTrigger>
+                        <SelectContent />
+                      </Select>
+                      {props.forceGroupBy && (
+                        <div class="text-xs text-gray-500 mt-1">
+                          This plot always uses "{props.forceGroupBy}" grouping
+                        </div>
                       )}
-                      disabled={!!(props.forceGroupBy || (props.isGlobalGroupingEnabled && props.globalGroupBy))}
-                    >
-                      <Label>
-                        Group By {props.forceGroupBy ? "(Fixed)" : (props.isGlobalGroupingEnabled && props.globalGroupBy) ? "(Global)" : ""}
-                      </Label>
-                      <SelectTrigger aria-label="Select grouping column">
-                        <SelectValue<string>>
-                          {(state) => state.selectedOption()}
-                        </SelectValue>
-                      </SelectTrigger>
-                      <SelectContent />
-                    </Select>
-                    {props.forceGroupBy && (
-                      <div class="text-xs text-gray-500 mt-1">
-                        This plot always uses "{props.forceGroupBy}" grouping
-                      </div>
-                    )}
-                    {!props.forceGroupBy && props.isGlobalGroupingEnabled && props.globalGroupBy && (
-                      <div class="text-xs text-gray-500 mt-1">
-                        Global group by setting is active
-                      </div>
-                    )}
-                  </div>
+                      {!props.forceGroupBy && props.isGlobalGroupingEnabled && props.globalGroupBy && (
+                        <div class="text-xs text-gray-500 mt-1">
+                          Global group by setting is active
+                        </div>
+                      )}
+                    </div>
+                  </Show>
                   
                   {/* Only show #Bins for histograms */}
                   <Show when={isHistogram}>
@@ -215,8 +298,8 @@ export function FilterSettingsForm(props: Props) {
                     <SelectContent />
                   </Select>
                   
-                  {/* Update Y-Axis Scale to only show for histograms */}
-                  <Show when={isHistogram}>
+                  {/* Update Y-Axis Scale to only show for histograms and scatter plots */}
+                  <Show when={isHistogram || isScatter}>
                     <Select
                       value={props.filterSettings.yAxisType || "linear"}
                       onChange={(value) =>
@@ -245,8 +328,8 @@ export function FilterSettingsForm(props: Props) {
               </CardContent>
             </Card>
             
-            {/* Only show Filter thresholds card for cell_rna_stats */}
-            <Show when={props.category === "cell_rna_stats"}>
+            {/* Samples failing the thresholds of a sample-level metric are excluded altogether */}
+            <Show when={props.category}>
               <Card>
                 <CardHeader>
                   <CardTitle>Filter thresholds</CardTitle>
@@ -258,41 +341,119 @@ export function FilterSettingsForm(props: Props) {
                       onChange={(value) => {
                         props.updateFilterSettings((settings) => {
                           settings.cutoffMin = value;
+                          // the threshold was entered by hand
+                          settings.autoThreshold = undefined;
                           return settings;
                         });
                       }}
                     >
-                      <TextFieldLabel>Min</TextFieldLabel>
+                      <TextFieldLabel>{isScatter ? "X Min" : "Min"}</TextFieldLabel>
                       <TextFieldInput />
                     </NumberField>
                     <NumberField
                       value={props.filterSettings.cutoffMax}
                       onChange={(value) => props.updateFilterSettings((settings) => {
                         settings.cutoffMax = value;
+                        settings.autoThreshold = undefined;
                         return settings;
                       })}
                     >
-                      <TextFieldLabel>Max</TextFieldLabel>
+                      <TextFieldLabel>{isScatter ? "X Max" : "Max"}</TextFieldLabel>
                       <TextFieldInput />
                     </NumberField>
+                    <Show when={isScatter}>
+                      <NumberField
+                        value={props.filterSettings.cutoffMinY}
+                        onChange={(value) => props.updateFilterSettings((settings) => {
+                          settings.cutoffMinY = value;
+                          return settings;
+                        })}
+                      >
+                        <TextFieldLabel>Y Min</TextFieldLabel>
+                        <TextFieldInput />
+                      </NumberField>
+                      <NumberField
+                        value={props.filterSettings.cutoffMaxY}
+                        onChange={(value) => props.updateFilterSettings((settings) => {
+                          settings.cutoffMaxY = value;
+                          return settings;
+                        })}
+                      >
+                        <TextFieldLabel>Y Max</TextFieldLabel>
+                        <TextFieldInput />
+                      </NumberField>
+                    </Show>
+
+                    <Show when={isCellLevel()}>
+                      <AutoThresholdForm
+                        filterSettings={props.filterSettings}
+                        updateFilterSettings={props.updateFilterSettings}
+                        data={props.data}
+                        category={props.category!}
+                      />
+                    </Show>
                     
-                    {props.category === 'cell_rna_stats' && 
-                     (props.filterSettings.cutoffMin !== undefined || props.filterSettings.cutoffMax !== undefined) && (
-                      () => {
-                        const impact = getFilterImpact();
-                        return impact && (
-                          <div class="col-span-2 mt-2 text-sm text-gray-600">
-                            <div class="flex items-center">
-                              <span class="mr-2">Filter impact:</span>
-                              <span class={impact.isHighImpact ? "text-amber-600 font-medium" : ""}>
-                                Removing {impact.affectedCount} of {impact.totalCells} cells ({impact.percent}%)
-                              </span>
-                              {impact.isHighImpact && <span class="text-amber-600 ml-2">⚠️ High impact</span>}
-                            </div>
+                    {(() => {
+                      const impact = getFilterImpact();
+                      return impact && (
+                        <div class="col-span-2 mt-2 text-sm text-gray-600">
+                          <div class="flex items-center">
+                            <span class="mr-2">Filter impact:</span>
+                            <span class={impact.isHighImpact ? "text-amber-600 font-medium" : ""}>
+                              {isCellLevel()
+                                ? `Removing ${impact.affectedCount} of ${impact.totalCells} cells (${impact.percent}%)`
+                                : `Excluding ${impact.affectedCount} of ${impact.totalCells} samples (${impact.percent}%)`}
+                            </span>
+                            {impact.isHighImpact && <span class="text-amber-600 ml-2">⚠️ High impact</span>}
                           </div>
-                        );
-                      }
-                    )()}
+                        </div>
+                      );
+                    })()}
+
+                    <Show when={isCellLevel() && getSamples().length > 1}>
+                      <div class="col-span-2 mt-2">
+                        <button
+                          type="button"
+                          onClick={() => setShowSampleCutoffs(!showSampleCutoffs())}
+                          class="text-sm text-blue-600 hover:underline"
+                        >
+                          {showSampleCutoffs() ? "Hide" : "Show"} per-sample thresholds
+                          {props.filterSettings.sampleCutoffs ? ` (${Object.keys(props.filterSettings.sampleCutoffs).length} set)` : ""}
+                        </button>
+                        <Show when={showSampleCutoffs()}>
+                          <p class="mt-1 text-xs text-gray-500">
+                            Leave a threshold empty to use the global threshold for that sample.
+                          </p>
+                          <div class="mt-2 grid grid-cols-3 gap-2 items-center">
+                            <For each={getSamples()}>
+                              {(sample) => (
+                                <>
+                                  <span class="text-sm text-gray-700 truncate" title={sample}>{sample}</span>
+                                  <NumberField
+                                    value={props.filterSettings.sampleCutoffs?.[sample]?.cutoffMin}
+                                    onChange={(value) => updateSampleCutoff(sample, "cutoffMin", value)}
+                                  >
+                                    <TextFieldInput
+                                      aria-label={`Min for ${sample}`}
+                                      placeholder={props.filterSettings.cutoffMin?.toString() ?? "Min"}
+                                    />
+                                  </NumberField>
+                                  <NumberField
+                                    value={props.filterSettings.sampleCutoffs?.[sample]?.cutoffMax}
+                                    onChange={(value) => updateSampleCutoff(sample, "cutoffMax", value)}
+                                  >
+                                    <TextFieldInput
+                                      aria-label={`Max for ${sample}`}
+                                      placeholder={props.filterSettings.cutoffMax?.toString() ?? "Max"}
+                                    />
+                                  </NumberField>
+                                </>
+                              )}
+                            </For>
+                          </div>
+                        </Show>
+                      </div>
+                    </Show>
                   </div>
                 </CardContent>
               </Card>
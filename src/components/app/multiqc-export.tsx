@@ -0,0 +1,65 @@
+import { createSignal, createUniqueId, onCleanup } from "solid-js";
+import { getComputeService } from "~/lib/compute-service";
+import { multiqcFiles } from "~/lib/multiqc";
+import { saveFile } from "~/lib/save-file";
+import { createZip } from "~/lib/zip";
+import { RawData, Settings } from "~/types";
+
+type Props = {
+  // data of the selected samples
+  data: RawData;
+  // plain copy of the applied filter settings, undefined while no filters are applied
+  settings?: Settings;
+  excludedSamples: string[];
+};
+
+// Export the cell counts, metrics and thresholds as MultiQC custom content, zipped together
+export function MultiqcExport(props: Props) {
+  const [isExporting, setIsExporting] = createSignal(false);
+
+  const compute = getComputeService();
+  const channel = createUniqueId();
+  onCleanup(() => compute.cancel(channel));
+
+  const exportMultiqc = async () => {
+    const settings = props.settings;
+    const filters = settings?.cell_rna_stats ?? [];
+    setIsExporting(true);
+    try {
+      const summary = await compute.request<"cellSummary">(channel, {
+        type: "cellSummary",
+        category: "cell_rna_stats",
+        rows: props.data.cell_rna_stats.index,
+        filters,
+        excludedSamples: settings ? props.excludedSamples : [],
+      });
+      const files = multiqcFiles(summary, props.data, settings);
+      const zip = createZip(files.map(file => ({
+        name: `multiqc/${file.name}`,
+        data: JSON.stringify(file.section, null, 2),
+      })));
+      await saveFile(new Blob([zip], { type: "application/zip" }), "qc_report_multiqc.zip", {
+        description: "ZIP archives",
+        accept: { "application/zip": [".zip"] },
+      });
+    } catch (err) {
+      // a newer export is already being computed
+      if (!(err instanceof DOMException && err.name === "AbortError")) {
+        alert("Failed to export the MultiQC files. " + err);
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={exportMultiqc}
+      disabled={isExporting()}
+      class="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+      title="Export the cells per sample, the medians of the cell metrics, the CellRanger metrics and the applied thresholds as MultiQC custom content"
+    >
+      {isExporting() ? "Exporting..." : "Export for MultiQC"}
+    </button>
+  );
+}
@@ -0,0 +1,77 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Label } from "~/components/ui/label";
+import { createComputeResource } from "~/lib/compute-service";
+import { FilterSettings, PolygonGate, RawData, RawDataCategory } from "~/types";
+
+type Props = {
+  filterSettings: FilterSettings;
+  updateFilterSettings: (fn: (settings: FilterSettings) => FilterSettings) => void;
+  data: RawDataCategory;
+  category: keyof RawData;
+  onRemove: () => void;
+};
+
+const keepLabels: Record<PolygonGate["keep"], string> = {
+  inside: "Keep cells inside",
+  outside: "Remove cells inside",
+};
+
+// Settings of a polygon gate, the polygon itself is drawn on a plot
+export function PolygonGateForm(props: Props) {
+  const gate = () => props.filterSettings.polygon!;
+
+  // Number of cells removed by this gate on its own
+  const [removed] = createComputeResource(() => ({
+    type: "removedCount" as const,
+    category: props.category,
+    rows: props.data.index,
+    // the settings store can not be sent to the worker, so a plain copy is made
+    filter: JSON.parse(JSON.stringify(props.filterSettings)),
+  }));
+  const removedCells = () => removed.latest ?? 0;
+
+  return (
+    <div class="flex flex-wrap items-end gap-4 p-2 bg-gray-50 rounded-md border text-sm">
+      <Select
+        value={gate().keep}
+        onChange={(value) =>
+          value && props.updateFilterSettings((settings) => {
+            settings.polygon!.keep = value;
+            return settings;
+          })
+        }
+        options={Object.keys(keepLabels) as PolygonGate["keep"][]}
+        itemComponent={(props) => (
+          <SelectItem item={props.item}>
+            {keepLabels[props.item.rawValue]}
+          </SelectItem>
+        )}
+      >
+        <Label>Gate</Label>
+        <SelectTrigger aria-label="Select which cells pass the gate">
+          <SelectValue<PolygonGate["keep"]>>
+            {(state) => keepLabels[state.selectedOption()]}
+          </SelectValue>
+        </SelectTrigger>
+        <SelectContent />
+      </Select>
+      <span class="text-gray-600">
+        {gate().vertices.length} vertices on {props.filterSettings.field} and {props.filterSettings.yField},
+        removing {removedCells()} of {props.data.num_rows} cells
+      </span>
+      <button
+        type="button"
+        onClick={props.onRemove}
+        class="px-2 py-1 text-red-700 rounded-md hover:bg-red-50"
+      >
+        Remove gate
+      </button>
+    </div>
+  );
+}
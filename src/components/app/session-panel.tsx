@@ -0,0 +1,122 @@
+import { createEffect, createSignal, For, Show } from "solid-js";
+import { findMissingReferences } from "~/lib/permalink";
+import { loadSnapshots, saveSnapshots, Snapshot } from "~/lib/sessions";
+import { RawData } from "~/types";
+
+type Props = {
+  fingerprint: string;
+  data: RawData;
+  // encoded state of the report
+  currentState: () => string;
+  onRestore: (state: string) => void;
+};
+
+export function SessionPanel(props: Props) {
+  const [snapshots, setSnapshots] = createSignal<Snapshot[]>([]);
+  const [name, setName] = createSignal("");
+  const [error, setError] = createSignal<string>();
+
+  // snapshots are stored per dataset
+  createEffect(() => setSnapshots(loadSnapshots(props.fingerprint)));
+
+  const updateSnapshots = (newSnapshots: Snapshot[]) => {
+    if (saveSnapshots(props.fingerprint, newSnapshots)) {
+      setSnapshots(newSnapshots);
+      setError(undefined);
+    } else {
+      setError("Could not store the snapshots, the browser storage may be full or disabled.");
+    }
+  };
+
+  const createSnapshot = () => {
+    const snapshot: Snapshot = {
+      id: Date.now().toString(36),
+      name: name().trim() || `Snapshot ${snapshots().length + 1}`,
+      createdAt: new Date().toISOString(),
+      state: props.currentState(),
+    };
+    updateSnapshots([...snapshots(), snapshot]);
+    setName("");
+  };
+
+  const missingReferences = (snapshot: Snapshot) => {
+    try {
+      return findMissingReferences(snapshot.state, props.data);
+    } catch (err) {
+      return [`an unreadable state (${err})`];
+    }
+  };
+
+  return (
+    <div class="mb-4 p-4 bg-gray-50 rounded-md border">
+      <h3 class="text-lg font-medium mb-2">Saved sessions</h3>
+      <p class="text-sm text-gray-600 mb-2">
+        Your settings are saved automatically in this browser. Save a snapshot to come back to a specific state later.
+      </p>
+      <form
+        class="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          createSnapshot();
+        }}
+      >
+        <input
+          type="text"
+          value={name()}
+          onInput={(e) => setName(e.currentTarget.value)}
+          placeholder={`Snapshot ${snapshots().length + 1}`}
+          aria-label="Snapshot name"
+          class="flex-1 px-2 py-1 text-sm border rounded-md"
+        />
+        <button
+          type="submit"
+          class="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+        >
+          Save snapshot
+        </button>
+      </form>
+      <Show when={error()}>
+        <p class="mt-2 text-sm text-red-600">{error()}</p>
+      </Show>
+
+      <Show when={snapshots().length > 0}>
+        <ul class="mt-3 divide-y">
+          <For each={snapshots()}>
+            {(snapshot) => {
+              const missing = missingReferences(snapshot);
+              return (
+                <li class="py-2 text-sm">
+                  <div class="flex items-center gap-2">
+                    <span class="font-medium">{snapshot.name}</span>
+                    <span class="text-gray-500">{new Date(snapshot.createdAt).toLocaleString()}</span>
+                    <span class="flex-1" />
+                    <button
+                      type="button"
+                      onClick={() => props.onRestore(snapshot.state)}
+                      class="px-2 py-1 bg-gray-200 rounded-md hover:bg-gray-300"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => updateSnapshots(snapshots().filter(s => s.id !== snapshot.id))}
+                      class="px-2 py-1 text-red-700 rounded-md hover:bg-red-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                  <Show when={missing.length > 0}>
+                    <p class="mt-1 text-amber-700">
+                      ⚠️ This snapshot references {missing.join(" and ")}, which are not in the current dataset
+                      and will be ignored.
+                    </p>
+                  </Show>
+                </li>
+              );
+            }}
+          </For>
+        </ul>
+      </Show>
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ export type SettingsState = {
   globalVisualization: {
     groupingEnabled: boolean;
     groupBy: string;
+    // show the cells removed by the applied filters greyed out instead of leaving them out
+    showRemovedCells: boolean;
   }
   filters: {
     enabled: boolean;
@@ -30,6 +32,7 @@ export const defaultSettings: SettingsState = {
   globalVisualization: {
     groupingEnabled: true,
     groupBy: "sample_id",
+    showRemovedCells: false,
   },
   filters: {
     enabled: false,
@@ -0,0 +1,62 @@
+import { For, Show, createSignal } from "solid-js";
+import { ValidationIssue } from "~/lib/validate-data";
+
+type ValidationReportProps = {
+  issues: ValidationIssue[];
+};
+
+export function ValidationReport(props: ValidationReportProps) {
+  const [showWarnings, setShowWarnings] = createSignal(false);
+
+  const errors = () => props.issues.filter(issue => issue.severity === "error");
+  const warnings = () => props.issues.filter(issue => issue.severity === "warning");
+
+  return (
+    <>
+      <Show when={errors().length > 0}>
+        <div class="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
+          <h3 class="text-lg font-medium text-red-800">The dataset could not be loaded</h3>
+          <p class="mt-1 text-sm text-red-700">
+            {errors().length} problem(s) were found while validating the data and report structure.
+            Please fix the input files and try again.
+          </p>
+          <ul class="mt-3 space-y-1 text-sm">
+            <For each={errors()}>
+              {(issue) => (
+                <li>
+                  <span class="font-mono text-red-800">{issue.path}</span>
+                  <span class="text-red-700">: {issue.message}</span>
+                </li>
+              )}
+            </For>
+          </ul>
+        </div>
+      </Show>
+
+      <Show when={warnings().length > 0}>
+        <div class="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-md text-sm">
+          <button
+            type="button"
+            onClick={() => setShowWarnings(!showWarnings())}
+            class="w-full flex justify-between items-center text-left font-medium text-amber-800"
+          >
+            <span>{warnings().length} warning(s) while validating the dataset</span>
+            <span class="transition-transform duration-200" classList={{ "rotate-180": showWarnings() }}>▼</span>
+          </button>
+          <Show when={showWarnings()}>
+            <ul class="mt-2 space-y-1">
+              <For each={warnings()}>
+                {(issue) => (
+                  <li>
+                    <span class="font-mono text-amber-800">{issue.path}</span>
+                    <span class="text-amber-700">: {issue.message}</span>
+                  </li>
+                )}
+              </For>
+            </ul>
+          </Show>
+        </div>
+      </Show>
+    </>
+  );
+}
@@ -0,0 +1,61 @@
+import { createSignal } from "solid-js";
+import { sampleExclusions } from "~/lib/filter-engine";
+import { saveFile } from "~/lib/save-file";
+import { formatWorkflowParams, workflowParams, WorkflowParamsFormat } from "~/lib/workflow-params";
+import { RawData, ReportStructure, Settings } from "~/types";
+
+type Props = {
+  structure: ReportStructure;
+  settings: Settings;
+  data: RawData;
+  datasetName: string;
+  fingerprint?: string;
+  selectedSamples: string[];
+};
+
+const fileTypes: Record<WorkflowParamsFormat, { description: string; accept: Record<string, string[]> }> = {
+  yaml: { description: "YAML files", accept: { "text/yaml": [".yaml"] } },
+  json: { description: "JSON files", accept: { "application/json": [".json"] } },
+};
+
+// Export the thresholds as a params file for the OpenPipelines ingestion workflow
+export function WorkflowParamsExport(props: Props) {
+  const [format, setFormat] = createSignal<WorkflowParamsFormat>("yaml");
+
+  const exportParams = async () => {
+    const selectedFormat = format();
+    // Get a clean copy of settings
+    const settings: Settings = JSON.parse(JSON.stringify(props.settings));
+    const params = workflowParams(props.structure, settings, {
+      dataset: props.datasetName,
+      dataset_fingerprint: props.fingerprint,
+      exported_at: new Date().toISOString(),
+      selected_samples: [...props.selectedSamples],
+      excluded_samples: sampleExclusions(props.data, settings).map(exclusion => exclusion.sample),
+    });
+    const type = Object.keys(fileTypes[selectedFormat].accept)[0];
+    const blob = new Blob([formatWorkflowParams(params, selectedFormat)], { type });
+    await saveFile(blob, `qc_params.${selectedFormat}`, fileTypes[selectedFormat]);
+  };
+
+  return (
+    <div class="flex">
+      <button
+        onClick={exportParams}
+        class="px-4 py-2 bg-green-600 text-white rounded-l-md hover:bg-green-700 transition-colors"
+        title="Export the thresholds under the parameter names of the OpenPipelines ingestion workflow"
+      >
+        Export Workflow Params
+      </button>
+      <select
+        class="rounded-r-md border border-l-0 border-input bg-background px-2 text-sm"
+        value={format()}
+        onChange={(e) => setFormat(e.currentTarget.value as WorkflowParamsFormat)}
+        aria-label="Workflow params format"
+      >
+        <option value="yaml">YAML</option>
+        <option value="json">JSON</option>
+      </select>
+    </div>
+  );
+}
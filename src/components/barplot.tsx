@@ -1,40 +1,67 @@
-import Plot from "@ralphsmith80/solid-plotly.js";
+import Plot from "./plot";
 import _ from "lodash";
 import { Layout, PlotData } from "plotly.js-dist-min";
-import { cutoffShape, plotlyConfig, recurringColours } from "~/lib/plots";
+import { cutoffDragConfig, cutoffShape, recurringColours } from "~/lib/plots";
 import { createBarData, createBarLayout } from "~/lib/bar-chart-utils";
-import { FilterSettings, RawDataCategory } from "~/types";
+import { figureName } from "~/lib/figure-export";
+import { createCutoffDrag, CutoffDragInfo, setCutoff } from "./cutoff-drag";
+import { createFigureExport, FigureExport } from "./figure-export";
+import { FilterSettings, RawData, RawDataCategory } from "~/types";
 
 type Props = {
   data: RawDataCategory;
+  category: keyof RawData;
   filterSettings: FilterSettings;
+  updateFilterSettings: (fn: (settings: FilterSettings) => FilterSettings) => void;
 };
 
 export function BarPlot(props: Props) {
   const dataLength = props.data.num_rows;
   const dynamicHeight = Math.max(400, dataLength * 20);
-  
+
+  const drag = createCutoffDrag((cutoff) => props.updateFilterSettings((settings) => setCutoff(settings, cutoff)));
+
+  const figure = createFigureExport(() => figureName(props.category, props.filterSettings.field));
+
+  const data = drag.freeze(() => createBarData({
+    data: props.data,
+    valueName: props.filterSettings.field,
+    groupName: props.filterSettings.groupBy,
+    zoomMin: props.filterSettings.zoomMin,
+    zoomMax: props.filterSettings.zoomMax,
+  }));
+
+  const layout = drag.freeze(() => createBarLayout({
+    data: props.data,
+    xTitle: props.filterSettings.label || props.filterSettings.field,
+    minCutoff: props.filterSettings.cutoffMin,
+    maxCutoff: props.filterSettings.cutoffMax,
+    xType: props.filterSettings.xAxisType || "linear",
+  }));
+
   return (
-    <div style={{ height: `${dynamicHeight}px`, width: "100%" }}>
-      <Plot
-        data={createBarData({
-          data: props.data,
-          valueName: props.filterSettings.field,
-          groupName: props.filterSettings.groupBy,
-          zoomMin: props.filterSettings.zoomMin,
-          zoomMax: props.filterSettings.zoomMax,
-        })}
-        layout={createBarLayout({
-          data: props.data,
-          xTitle: props.filterSettings.label || props.filterSettings.field,
-          minCutoff: props.filterSettings.cutoffMin,
-          maxCutoff: props.filterSettings.cutoffMax,
-          xType: props.filterSettings.xAxisType || "linear",
-        })}
-        config={plotlyConfig()}
-        useResizeHandler={true}
-        style={{ width: "100%", height: "100%" }}
+    <div>
+      <div style={{ height: `${dynamicHeight}px`, width: "100%" }}>
+        <Plot
+          data={data()}
+          layout={layout()}
+          config={cutoffDragConfig()}
+          onInitialized={(plot, element) => {
+            drag.onInitialized(plot, element);
+            figure.onInitialized(plot, element);
+          }}
+          useResizeHandler={true}
+          style={{ width: "100%", height: "100%" }}
+        />
+      </div>
+      <CutoffDragInfo
+        dragged={drag.dragged()}
+        data={props.data}
+        category={props.category}
+        filterSettings={props.filterSettings}
+        rowName="samples"
       />
+      <FigureExport figure={figure.figure} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { ParentComponent, Show } from "solid-js";
+
+type Props = {
+  busy: boolean;
+};
+
+// Shows a spinner on top of its children while results are being computed
+export const BusyIndicator: ParentComponent<Props> = (props) => {
+  return (
+    <div class="relative">
+      {props.children}
+      <Show when={props.busy}>
+        <div class="absolute inset-0 z-10 flex items-start justify-start p-2 bg-white/40 pointer-events-none">
+          <span class="flex items-center gap-2 px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">
+            <span class="h-3 w-3 rounded-full border-2 border-blue-800 border-t-transparent animate-spin" />
+            Computing...
+          </span>
+        </div>
+      </Show>
+    </div>
+  );
+};
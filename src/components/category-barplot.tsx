@@ -0,0 +1,45 @@
+import Plot from "./plot";
+import { categoryCounts, columnCategories, getColumn } from "~/lib/column-utils";
+import { passingCategories } from "~/lib/filter-engine";
+import { figureName } from "~/lib/figure-export";
+import { categoryBarData, categoryBarLayout, plotlyConfig } from "~/lib/plots";
+import { createFigureExport, FigureExport } from "./figure-export";
+import { FilterSettings, RawData, RawDataCategory } from "~/types";
+
+type Props = {
+  data: RawDataCategory;
+  category: keyof RawData;
+  filterSettings: FilterSettings;
+};
+
+// Cells per category of a categorical or boolean column, for category filters
+export function CategoryBarPlot(props: Props) {
+  const column = () => getColumn(props.data, props.filterSettings.field);
+  const categories = () => {
+    const col = column();
+    return col ? columnCategories(col) ?? [] : [];
+  };
+  const counts = () => {
+    const col = column();
+    return col ? categoryCounts(props.data, col) : [];
+  };
+
+  const figure = createFigureExport(() => figureName(props.category, props.filterSettings.field));
+
+  return (
+    <>
+      <Plot
+        data={categoryBarData(
+          categories(),
+          counts(),
+          passingCategories(categories(), props.filterSettings.categorySelection),
+        )}
+        layout={categoryBarLayout(props.filterSettings.label || props.filterSettings.field, categories().length)}
+        config={plotlyConfig()}
+        useResizeHandler={true}
+        onInitialized={figure.onInitialized}
+      />
+      <FigureExport figure={figure.figure} />
+    </>
+  );
+}
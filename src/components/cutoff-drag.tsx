@@ -0,0 +1,160 @@
+import { batch, createMemo, createSignal, onCleanup, Show } from "solid-js";
+import { PlotlyHTMLElement, PlotRelayoutEvent, Shape } from "plotly.js-dist-min";
+import { throttle } from "@solid-primitives/scheduled";
+import { createComputeResource } from "~/lib/compute-service";
+import { FilterSettings, RawData, RawDataCategory, SampleCutoffs } from "~/types";
+
+// A cutoff line that is dragged, identified by the name cutoffShape gives the line
+export type DraggedCutoff = {
+  bound: keyof SampleCutoffs;
+  sample?: string;
+  value: number;
+};
+
+function draggedCutoff(shape: Partial<Shape> | undefined, value: number): DraggedCutoff | undefined {
+  const [label, ...sample] = (shape?.name ?? "").split(":");
+  if (label !== "Min" && label !== "Max") return undefined;
+  return {
+    bound: label === "Min" ? "cutoffMin" : "cutoffMax",
+    sample: sample.length > 0 ? sample.join(":") : undefined,
+    value,
+  };
+}
+
+// A cutoff line that is being dragged and where the pointer started
+type DragStart = {
+  shape: Partial<Shape>;
+  value: number;
+  clientX: number;
+};
+
+// The line that the pointer was pressed on, plotly gives the shapes on the page the index of their layout shape
+function dragStart(element: PlotlyHTMLElement, event: PointerEvent): DragStart | undefined {
+  const index = (event.target as Element | null)?.closest(".shapelayer [data-index]")?.getAttribute("data-index");
+  const shape = index != null ? element.layout.shapes?.[Number(index)] : undefined;
+  if (!shape || !draggedCutoff(shape, 0)) return undefined;
+  return { shape, value: Number(shape.x0), clientX: event.clientX };
+}
+
+// Plotly only updates the layout once the line is released, so while dragging the line is moved by as much as
+// the pointer moved. The x axis range and the width of the plot area convert the distance to a value.
+function movingCutoff(element: PlotlyHTMLElement, start: DragStart, event: PointerEvent): DraggedCutoff | undefined {
+  const axis = element.layout.xaxis;
+  const width = element.querySelector(".nsewdrag")?.getBoundingClientRect().width;
+  if (!axis?.range || !width) return undefined;
+  const perPixel = (Number(axis.range[1]) - Number(axis.range[0])) / width;
+  const distance = (event.clientX - start.clientX) * perPixel;
+  // the range of a log axis is in powers of ten
+  const value = axis.type === "log" ? 10 ** (Math.log10(start.value) + distance) : start.value + distance;
+  return draggedCutoff(start.shape, value);
+}
+
+function releasedCutoff(element: PlotlyHTMLElement, event: PlotRelayoutEvent): DraggedCutoff | undefined {
+  for (const [key, value] of Object.entries(event)) {
+    const match = key.match(/^shapes\[(\d+)\]\.x[01]$/);
+    if (match) return draggedCutoff(element.layout.shapes?.[Number(match[1])], Number(value));
+  }
+  return undefined;
+}
+
+// Set a dragged cutoff in the filter settings, the cutoff is no longer the automatic threshold
+export function setCutoff(settings: FilterSettings, cutoff: DraggedCutoff): FilterSettings {
+  if (cutoff.sample === undefined) {
+    settings[cutoff.bound] = cutoff.value;
+    settings.autoThreshold = undefined;
+  } else {
+    settings.sampleCutoffs = {
+      ...settings.sampleCutoffs,
+      [cutoff.sample]: { ...settings.sampleCutoffs?.[cutoff.sample], [cutoff.bound]: cutoff.value },
+    };
+    if (settings.autoThreshold?.perSample) {
+      settings.autoThreshold = undefined;
+    }
+  }
+  return settings;
+}
+
+/**
+ * Track the cutoff lines that are dragged on a plot with cutoffDragConfig. The cutoff is passed to onChange
+ * while the line is dragged and once more when it is released. Redrawing the plot while dragging resets the
+ * line, so the data and layout of the plot are wrapped in `freeze` to keep them until the line is released.
+ */
+export function createCutoffDrag(
+  onChange: (cutoff: DraggedCutoff) => void,
+  snap: (value: number) => number = (value) => value,
+) {
+  const [dragged, setDragged] = createSignal<DraggedCutoff>();
+  let element: PlotlyHTMLElement | undefined;
+  let start: DragStart | undefined;
+
+  const snapped = (cutoff: DraggedCutoff) => ({ ...cutoff, value: snap(cutoff.value) });
+  const changeWhileDragging = throttle(onChange, 50);
+
+  // plotly covers the page while dragging, so the pointer is followed on the window
+  const onPointerMove = (event: PointerEvent) => {
+    if (!element || !start || event.buttons === 0) return;
+    const cutoff = movingCutoff(element, start, event);
+    if (cutoff) {
+      setDragged(snapped(cutoff));
+      changeWhileDragging(snapped(cutoff));
+    }
+  };
+  window.addEventListener("pointermove", onPointerMove);
+  onCleanup(() => window.removeEventListener("pointermove", onPointerMove));
+
+  const onInitialized = (_figure: unknown, plot: PlotlyHTMLElement) => {
+    element = plot;
+    // plotly starts dragging on mousedown, which follows the pointerdown
+    plot.addEventListener("pointerdown", (event) => start = dragStart(plot, event), { capture: true });
+    plot.on("plotly_relayout", (event) => {
+      start = undefined;
+      const cutoff = releasedCutoff(plot, event);
+      changeWhileDragging.clear();
+      batch(() => {
+        if (cutoff) onChange(snapped(cutoff));
+        setDragged(undefined);
+      });
+    });
+  };
+
+  const freeze = <T,>(fn: () => T) => createMemo<T>((prev) => (dragged() && prev !== undefined ? prev : fn()));
+
+  return { dragged, onInitialized, freeze };
+}
+
+type Props = {
+  dragged?: DraggedCutoff;
+  data: RawDataCategory;
+  category: keyof RawData;
+  filterSettings: FilterSettings;
+  // what the rows of the data are, e.g. cells or samples
+  rowName: string;
+};
+
+// The cutoff that is dragged and the number of rows it removes, the filter settings already hold the cutoff
+export function CutoffDragInfo(props: Props) {
+  const [numRemoved] = createComputeResource(() => props.dragged ? {
+    type: "removedCount" as const,
+    category: props.category,
+    rows: props.data.index,
+    // the settings store can not be sent to the worker, so a plain copy is made
+    filter: JSON.parse(JSON.stringify(props.filterSettings)),
+  } : undefined);
+
+  return (
+    <Show
+      when={props.dragged}
+      fallback={<p class="text-xs text-gray-500">Drag the dotted cutoff lines to change the thresholds.</p>}
+    >
+      {(dragged) => (
+        <p class="text-sm">
+          <span class="font-medium">
+            {dragged().bound === "cutoffMin" ? "Min" : "Max"}
+            {dragged().sample !== undefined ? ` (${dragged().sample})` : ""}: {dragged().value.toPrecision(4)}
+          </span>
+          {" "}removes {numRemoved.latest ?? 0} of {props.data.num_rows} {props.rowName}
+        </p>
+      )}
+    </Show>
+  );
+}
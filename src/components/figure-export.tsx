@@ -0,0 +1,217 @@
+import { PlotlyHTMLElement } from "plotly.js-dist-min";
+import { createSignal, For, onCleanup, Show } from "solid-js";
+import { FigureFormat, figureFileTypes, FigureOptions, renderFigure } from "~/lib/figure-export";
+import { saveFile } from "~/lib/save-file";
+import { createZip } from "~/lib/zip";
+
+type ExportableFigure = {
+  // name of the image file without extension
+  name: () => string;
+  element: () => PlotlyHTMLElement | undefined;
+};
+
+// Figures that are currently on the page, for downloading all of them at once
+const [figures, setFigures] = createSignal<ExportableFigure[]>([]);
+
+/**
+ * Make a plot exportable as an image. The returned onInitialized has to be called by the plot,
+ * the figure is part of "download all" for as long as the plot is on the page.
+ */
+export function createFigureExport(name: () => string) {
+  const [element, setElement] = createSignal<PlotlyHTMLElement>();
+  const figure: ExportableFigure = { name, element };
+
+  setFigures(current => [...current, figure]);
+  onCleanup(() => setFigures(current => current.filter(other => other !== figure)));
+
+  const onInitialized = (_figure: unknown, plot: PlotlyHTMLElement) => setElement(plot);
+
+  return { figure, onInitialized };
+}
+
+// Size of the plot on the page, used as the default size of the image
+function currentSize(element: PlotlyHTMLElement | undefined): [number, number] {
+  return [Math.round(element?.clientWidth || 800), Math.round(element?.clientHeight || 500)];
+}
+
+async function saveFigure(figure: ExportableFigure, options: FigureOptions) {
+  const element = figure.element();
+  if (!element) return;
+  let image: Uint8Array;
+  try {
+    image = await renderFigure(element, options);
+  } catch (err) {
+    console.error("Error exporting figure:", err);
+    alert("Failed to export the figure. " + err);
+    return;
+  }
+  const fileType = figureFileTypes[options.format];
+  const type = Object.keys(fileType.accept)[0];
+  await saveFile(new Blob([image], { type }), `${figure.name()}.${options.format}`, fileType);
+}
+
+const scales = [1, 2, 3, 4];
+
+type Props = {
+  figure: ExportableFigure;
+};
+
+// Export a plot as PNG or SVG at a chosen size and resolution
+export function FigureExport(props: Props) {
+  const [isOpen, setIsOpen] = createSignal(false);
+  const [format, setFormat] = createSignal<FigureFormat>("png");
+  const [width, setWidth] = createSignal(800);
+  const [height, setHeight] = createSignal(500);
+  const [scale, setScale] = createSignal(2);
+
+  const open = () => {
+    const [currentWidth, currentHeight] = currentSize(props.figure.element());
+    setWidth(currentWidth);
+    setHeight(currentHeight);
+    setIsOpen(true);
+  };
+
+  const isValid = () => width() > 0 && height() > 0;
+
+  return (
+    <div class="flex flex-wrap items-center gap-2 text-sm">
+      <Show
+        when={isOpen()}
+        fallback={
+          <button
+            type="button"
+            onClick={open}
+            disabled={!props.figure.element()}
+            class="px-2 py-1 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            Export figure
+          </button>
+        }
+      >
+        <select
+          class="h-8 rounded-md border border-input bg-background px-2 text-sm"
+          value={format()}
+          onChange={(e) => setFormat(e.currentTarget.value as FigureFormat)}
+          aria-label="Image format"
+        >
+          <option value="png">PNG</option>
+          <option value="svg">SVG</option>
+        </select>
+        <label class="inline-flex items-center gap-1">
+          Width
+          <input
+            type="number"
+            min="1"
+            value={width()}
+            onInput={(e) => setWidth(e.currentTarget.valueAsNumber)}
+            class="w-20 px-2 py-1 border rounded-md"
+          />
+        </label>
+        <label class="inline-flex items-center gap-1">
+          Height
+          <input
+            type="number"
+            min="1"
+            value={height()}
+            onInput={(e) => setHeight(e.currentTarget.valueAsNumber)}
+            class="w-20 px-2 py-1 border rounded-md"
+          />
+        </label>
+        <Show when={format() === "png"}>
+          <select
+            class="h-8 rounded-md border border-input bg-background px-2 text-sm"
+            value={scale()}
+            onChange={(e) => setScale(Number(e.currentTarget.value))}
+            aria-label="Resolution"
+          >
+            <For each={scales}>
+              {(option) => <option value={option}>{option}x</option>}
+            </For>
+          </select>
+        </Show>
+        <button
+          type="button"
+          onClick={() => saveFigure(props.figure, { format: format(), width: width(), height: height(), scale: scale() })}
+          disabled={!isValid()}
+          class="px-2 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          Download
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          class="px-2 py-1 bg-gray-200 rounded-md hover:bg-gray-300"
+        >
+          Cancel
+        </button>
+      </Show>
+    </div>
+  );
+}
+
+// Figures that are visible, in the order they appear on the page. Collapsed sections hide their plots.
+function visibleFigures(): { name: string; element: PlotlyHTMLElement }[] {
+  const visible = figures().flatMap(figure => {
+    const element = figure.element();
+    return element && element.isConnected && element.offsetParent !== null ? [{ name: figure.name(), element }] : [];
+  });
+  return visible.sort((a, b) =>
+    a.element.compareDocumentPosition(b.element) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+  );
+}
+
+// Download every visible figure at its size on the page, zipped together
+export function DownloadAllFigures() {
+  const [format, setFormat] = createSignal<FigureFormat>("png");
+  const [isExporting, setIsExporting] = createSignal(false);
+
+  const downloadAll = async () => {
+    const selectedFormat = format();
+    setIsExporting(true);
+    try {
+      // plots of the same field in different places get a number
+      const used = new Map<string, number>();
+      const entries = [];
+      for (const { name, element } of visibleFigures()) {
+        const count = (used.get(name) ?? 0) + 1;
+        used.set(name, count);
+        const [width, height] = currentSize(element);
+        entries.push({
+          name: `${count > 1 ? `${name}_${count}` : name}.${selectedFormat}`,
+          data: await renderFigure(element, { format: selectedFormat, width, height, scale: 2 }),
+        });
+      }
+      await saveFile(new Blob([createZip(entries)], { type: "application/zip" }), "qc_report_figures.zip", {
+        description: "ZIP archives",
+        accept: { "application/zip": [".zip"] },
+      });
+    } catch (err) {
+      console.error("Error exporting figures:", err);
+      alert("Failed to export the figures. " + err);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div class="flex">
+      <button
+        onClick={downloadAll}
+        disabled={isExporting() || figures().length === 0}
+        class="px-4 py-2 bg-green-600 text-white rounded-l-md hover:bg-green-700 transition-colors disabled:opacity-50"
+        title="Download every visible plot as an image, named by category and field"
+      >
+        {isExporting() ? "Exporting..." : "Download All Figures"}
+      </button>
+      <select
+        class="rounded-r-md border border-l-0 border-input bg-background px-2 text-sm"
+        value={format()}
+        onChange={(e) => setFormat(e.currentTarget.value as FigureFormat)}
+        aria-label="Figure format"
+      >
+        <option value="png">PNG</option>
+        <option value="svg">SVG</option>
+      </select>
+    </div>
+  );
+}
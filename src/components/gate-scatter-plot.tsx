@@ -0,0 +1,70 @@
+import Plot from "./plot";
+import { Show } from "solid-js";
+import { gateData, gateLayout, selectionConfig } from "~/lib/plots";
+import { createComputeResource } from "~/lib/compute-service";
+import { figureName } from "~/lib/figure-export";
+import { BusyIndicator } from "./busy-indicator";
+import { createPlotSelection, GateSelectionBar } from "./gate-selection";
+import { createFigureExport, FigureExport } from "./figure-export";
+import { FilterSettings, PolygonGate, RawData, RawDataCategory } from "~/types";
+
+type Props = {
+  data: RawDataCategory;
+  category: keyof RawData;
+  filterSettings: FilterSettings;
+  isSpatial?: boolean;
+  // called with a polygon drawn on the plot, in the coordinates of field and yField
+  onCreateGate?: (vertices: PolygonGate["vertices"], keep: PolygonGate["keep"]) => void;
+};
+
+// Two metrics plotted against each other, with the rectangular gate of the X and Y cutoffs or a polygon gate
+export function GateScatterPlot(props: Props) {
+  const [gate] = createComputeResource(() => ({
+    type: "gate" as const,
+    category: props.category,
+    rows: props.data.index,
+    // the settings store can not be sent to the worker, so a plain copy is made
+    filter: JSON.parse(JSON.stringify(props.filterSettings)),
+  }));
+
+  const selection = createPlotSelection();
+
+  const figure = createFigureExport(() => figureName(
+    props.category,
+    props.filterSettings.field,
+    "vs",
+    props.filterSettings.yField,
+    props.filterSettings.polygon?.name,
+  ));
+
+  return (
+    <BusyIndicator busy={gate.loading}>
+      <Plot
+        data={gate.latest ? gateData(gate.latest) : []}
+        layout={gateLayout(props.filterSettings, gate.latest, props.isSpatial)}
+        config={selectionConfig()}
+        useResizeHandler={true}
+        onInitialized={(plot, element) => {
+          selection.onInitialized(plot, element);
+          figure.onInitialized(plot, element);
+        }}
+      />
+      <Show when={(gate.latest?.step ?? 1) > 1}>
+        <p class="text-xs text-gray-500">
+          Showing 1 in every {gate.latest!.step} cells, the counts include all cells.
+        </p>
+      </Show>
+      <Show when={props.onCreateGate}>
+        <GateSelectionBar
+          selection={selection.selection()}
+          onCreate={(keep) => {
+            props.onCreateGate!(selection.selection()!, keep);
+            selection.clear();
+          }}
+          onCancel={selection.clear}
+        />
+      </Show>
+      <FigureExport figure={figure.figure} />
+    </BusyIndicator>
+  );
+}
@@ -0,0 +1,78 @@
+import { createSignal, Show } from "solid-js";
+import { PlotlyHTMLElement, PlotSelectionEvent } from "plotly.js-dist-min";
+import { PolygonGate } from "~/types";
+
+type Vertices = PolygonGate["vertices"];
+
+// Polygon of a lasso or box selection, the selection is made on a single subplot
+function selectionVertices(event: PlotSelectionEvent | undefined): Vertices | undefined {
+  if (event?.lassoPoints) {
+    // the points are keyed by axis id, e.g. x2 and y2 for the second subplot
+    const xs = Object.entries(event.lassoPoints).find(([axis]) => axis.startsWith("x"))?.[1] as number[] | undefined;
+    const ys = Object.entries(event.lassoPoints).find(([axis]) => axis.startsWith("y"))?.[1] as number[] | undefined;
+    if (!xs || !ys || xs.length < 3) return undefined;
+    return xs.map((x, i) => [x, ys[i]]);
+  }
+  if (event?.range) {
+    const [x0, x1] = Object.entries(event.range).find(([axis]) => axis.startsWith("x"))?.[1] as number[];
+    const [y0, y1] = Object.entries(event.range).find(([axis]) => axis.startsWith("y"))?.[1] as number[];
+    return [[x0, y0], [x1, y0], [x1, y1], [x0, y1]];
+  }
+  return undefined;
+}
+
+/**
+ * Track the lasso or box selection of a plot. The plot component does not forward selection events,
+ * so the listeners are added to the plot element once it has been initialized.
+ */
+export function createPlotSelection() {
+  const [selection, setSelection] = createSignal<Vertices>();
+
+  const onInitialized = (_figure: unknown, element: PlotlyHTMLElement) => {
+    element.on("plotly_selected", (event) => setSelection(selectionVertices(event)));
+    element.on("plotly_deselect", () => setSelection(undefined));
+  };
+
+  return { selection, clear: () => setSelection(undefined), onInitialized };
+}
+
+type Props = {
+  selection?: Vertices;
+  onCreate: (keep: PolygonGate["keep"]) => void;
+  onCancel: () => void;
+};
+
+// Turn the current selection into a gate that keeps or removes the selected cells
+export function GateSelectionBar(props: Props) {
+  return (
+    <Show
+      when={props.selection}
+      fallback={<p class="text-xs text-gray-500">Draw a lasso or box on the plot to create a polygon gate.</p>}
+    >
+      <div class="flex items-center gap-2 text-sm">
+        <span>Selection with {props.selection!.length} vertices:</span>
+        <button
+          type="button"
+          onClick={() => props.onCreate("inside")}
+          class="px-2 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          Keep cells inside
+        </button>
+        <button
+          type="button"
+          onClick={() => props.onCreate("outside")}
+          class="px-2 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          Remove cells inside
+        </button>
+        <button
+          type="button"
+          onClick={props.onCancel}
+          class="px-2 py-1 bg-gray-200 rounded-md hover:bg-gray-300"
+        >
+          Cancel
+        </button>
+      </div>
+    </Show>
+  );
+}
@@ -1,28 +1,59 @@
-import Plot from "@ralphsmith80/solid-plotly.js";
+import Plot from "./plot";
 import { Layout, PlotData } from "plotly.js-dist-min";
-import { plotlyConfig, getHeatmapColorValue, createHeatmapGrid } from "~/lib/plots";
-import { FilterSettings, RawDataCategory, HeatmapData } from "~/types";
+import { removedCellsHeatmap, selectionConfig } from "~/lib/plots";
+import { figureName } from "~/lib/figure-export";
+import { createComputeResource } from "~/lib/compute-service";
+import { BusyIndicator } from "./busy-indicator";
+import { createPlotSelection, GateSelectionBar } from "./gate-selection";
+import { createFigureExport, FigureExport } from "./figure-export";
+import { FilterSettings, HeatmapGrid, PolygonGate, RawData, RawDataCategory } from "~/types";
 import { createMemo, Show } from "solid-js";
 import * as _ from "lodash";
 
 type HeatmapProps = {
   data: RawDataCategory;
-  binData: HeatmapData;
+  category: keyof RawData;
+  binning: {
+    xCol: string;
+    yCol: string;
+    numBinsX: number;
+    numBinsY: number;
+  };
   filterSettings: FilterSettings;
   colorFieldName?: string;
+  // show the bins with cells removed by the applied filters below the bins of the passing cells
+  showRemoved?: boolean;
+  // called with a polygon drawn on the plot, in the binning coordinates
+  onCreateGate?: (vertices: PolygonGate["vertices"], keep: PolygonGate["keep"]) => void;
 };
 
 export function Heatmap(props: HeatmapProps) {
   const colorField = createMemo(() => 
     props.colorFieldName || props.filterSettings.field
   );
+
+  // binning and averaging is done by the compute worker
+  const [heatmap] = createComputeResource(() => ({
+    type: "heatmap" as const,
+    category: props.category,
+    rows: props.data.index,
+    xCol: props.binning.xCol,
+    yCol: props.binning.yCol,
+    numBinsX: props.binning.numBinsX,
+    numBinsY: props.binning.numBinsY,
+    colorField: colorField(),
+    groupBy: props.filterSettings.groupBy,
+    splitByStatus: props.showRemoved,
+  }));
+
+  // groups that are shown, based on the latest heatmap grids
+  const groups = createMemo(() =>
+    (heatmap.latest?.grids ?? []).flatMap(grid => grid.group !== undefined ? [grid.group] : [])
+  );
   
   const plotData = createMemo(() => {
-    const colorColumn = props.data.columns.find(c => c.name === colorField());
-    if (!colorColumn) return [];
-    const colorValues = colorColumn.data as number[];
-    
-    const binColors = getHeatmapColorValue(colorColumn.dtype, colorValues, props.binData, undefined, undefined);
+    const result = heatmap.latest;
+    if (!result) return [];
 
     // Custom white-to-blue color scale
     const customColorScale: [number, string][] = [
@@ -35,15 +66,25 @@ export function Heatmap(props: HeatmapProps) {
       [1.0, 'rgba(0, 68, 204, 1)']
     ];
 
+    // bins without passing cells are left empty, so the removed cells below them show
+    const shownValues = (heatmapGrid: HeatmapGrid["grids"][number]) => heatmapGrid.removed
+      ? heatmapGrid.z.map((row, j) => row.map((value, i) => heatmapGrid.counts[j][i] > 0 ? value : undefined))
+      : heatmapGrid.z;
+    const removedLayer = (heatmapGrid: HeatmapGrid["grids"][number], xaxis: string, yaxis: string) =>
+      heatmapGrid.removed
+        ? [removedCellsHeatmap(result.xBinCenters, result.yBinCenters, heatmapGrid.removed, xaxis, yaxis)]
+        : [];
+
     // If no groupBy, just return a single heatmap
-    if (!props.filterSettings.groupBy) {
-      const heatmapGrid = createHeatmapGrid(props.binData, binColors);
+    if (result.grids.length === 1 && result.grids[0].group === undefined) {
+      const heatmapGrid = result.grids[0];
       
-      const plots: Partial<PlotData>[] = [{
+      const plots: Partial<PlotData>[] = removedLayer(heatmapGrid, "x", "y");
+      plots.push({
         type: "heatmap",
-        x: heatmapGrid.x,
-        y: heatmapGrid.y,
-        z: heatmapGrid.z,
+        x: result.xBinCenters,
+        y: result.yBinCenters,
+        z: shownValues(heatmapGrid),
         colorscale: customColorScale,
         hoverongaps: false,
         hovertemplate: 
@@ -52,12 +93,7 @@ export function Heatmap(props: HeatmapProps) {
           '<b>Y</b>: %{y:.2f}<br>' +
           `<b>${props.filterSettings.label || colorField() || ""}</b>: %{z:.2f}` +
           '<extra></extra>',
-        customdata: heatmapGrid.z.map((row, yIndex) => 
-          row.map((_, xIndex) => {
-            // Get cell count for this bin
-            return props.binData.binIndices[yIndex][xIndex].length;
-          })
-        ),
+        customdata: heatmapGrid.counts,
         showscale: true,
         colorbar: {
           title: props.filterSettings.label || colorField() || "",
@@ -72,7 +108,7 @@ export function Heatmap(props: HeatmapProps) {
         xaxis: "x",
         yaxis: "y",
         name: "Total",
-      } as Partial<PlotData>];
+      } as Partial<PlotData>);
       
       return plots;
     }
@@ -81,27 +117,18 @@ export function Heatmap(props: HeatmapProps) {
     const groupColumn = props.data.columns.find(c => c.name === props.filterSettings.groupBy);
     if (!groupColumn) return [];
 
-    const groupValues = groupColumn.data;
-    const definedGroups = [...new Set(groupValues)].filter(g => g !== undefined && g !== null).sort();
-    const uniqueGroups = definedGroups;
     const plots: Partial<PlotData>[] = [];
     
-    uniqueGroups.forEach((group, i) => {
-      const groupColor = getHeatmapColorValue(colorColumn.dtype, colorValues, props.binData, groupValues, group);
+    result.grids.forEach((heatmapGrid, i) => {
+      const group = heatmapGrid.group!;
       const groupName = groupColumn.categories?.[group] || `Group ${group}`;
-      const heatmapGrid = createHeatmapGrid(props.binData, groupColor);
-      
-      const groupCounts = heatmapGrid.z.map((row, yIndex) => 
-        row.map((_, xIndex) => {
-          return props.binData.binIndices[yIndex][xIndex].filter(idx => groupValues[idx] === group).length;
-        })
-      );
       
+      plots.push(...removedLayer(heatmapGrid, i === 0 ? "x" : `x${i+1}`, i === 0 ? "y" : `y${i+1}`));
       plots.push({
         type: "heatmap",
-        x: heatmapGrid.x,
-        y: heatmapGrid.y,
-        z: heatmapGrid.z,
+        x: result.xBinCenters,
+        y: result.yBinCenters,
+        z: shownValues(heatmapGrid),
         colorscale: customColorScale,
         hoverongaps: false,
         hovertemplate: 
@@ -110,7 +137,7 @@ export function Heatmap(props: HeatmapProps) {
           '<b>Y</b>: %{y:.2f}<br>' +
           `<b>${props.filterSettings.label || colorField() || ""}</b>: %{z:.2f}` +
           '<extra></extra>',
-        customdata: groupCounts,
+        customdata: heatmapGrid.counts,
         showscale: i === 0, // Only show colorbar for the first plot
         colorbar: i === 0 ? {
           title: props.filterSettings.label || colorField() || "",
@@ -164,7 +191,7 @@ export function Heatmap(props: HeatmapProps) {
     const groupColumn = props.data.columns.find(c => c.name === props.filterSettings.groupBy);
     if (!groupColumn) return {};
 
-    const uniqueGroups = [...new Set(groupColumn.data)].filter(g => g !== undefined && g !== null).sort();
+    const uniqueGroups = groups();
     const totalPlots = uniqueGroups.length;
     
     // Calculate grid dimensions
@@ -225,9 +252,13 @@ export function Heatmap(props: HeatmapProps) {
     
     return layout;
   });
+
+  const selection = createPlotSelection();
+
+  const figure = createFigureExport(() => figureName(props.category, colorField(), "spatial"));
   
   return (
-    <>
+    <BusyIndicator busy={heatmap.loading}>
       <Show when={props.filterSettings.cutoffMin !== undefined || props.filterSettings.cutoffMax !== undefined}>
         <div class="absolute top-2 right-2 z-10 px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">
           Filter applied: {props.filterSettings.field}
@@ -236,9 +267,24 @@ export function Heatmap(props: HeatmapProps) {
       <Plot
         data={plotData()}
         layout={plotLayout()}
-        config={plotlyConfig()}
+        config={selectionConfig(true)}
         style={{ width: "100%", height: "100%" }}
+        onInitialized={(plot, element) => {
+          selection.onInitialized(plot, element);
+          figure.onInitialized(plot, element);
+        }}
       />
-    </>
+      <Show when={props.onCreateGate}>
+        <GateSelectionBar
+          selection={selection.selection()}
+          onCreate={(keep) => {
+            props.onCreateGate!(selection.selection()!, keep);
+            selection.clear();
+          }}
+          onCancel={selection.clear}
+        />
+      </Show>
+      <FigureExport figure={figure.figure} />
+    </BusyIndicator>
   );
 }
\ No newline at end of file
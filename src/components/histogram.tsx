@@ -1,45 +1,44 @@
-import Plot from "@ralphsmith80/solid-plotly.js";
+import Plot from "./plot";
 import _ from "lodash";
-import { Layout, PlotData } from "plotly.js-dist-min";
-import { cutoffShape, plotlyConfig, recurringColours, createAxisAnnotation } from "~/lib/plots";
-import { calculateBinCounts, createBinLabels } from "~/lib/histogram-utils";
-import { FilterSettings, RawDataCategory } from "~/types";
+import { createSignal } from "solid-js";
+import { Layout, PlotData, Shape } from "plotly.js-dist-min";
+import { cutoffDragConfig, cutoffShape, recurringColours, createAxisAnnotation } from "~/lib/plots";
+import { createBinLabels } from "~/lib/histogram-utils";
+import { figureName } from "~/lib/figure-export";
+import { getColumn } from "~/lib/column-utils";
+import { BinCountsResult } from "~/lib/compute";
+import { createComputeResource } from "~/lib/compute-service";
+import { sampleCutoffs } from "~/lib/filter-engine";
+import { BusyIndicator } from "./busy-indicator";
+import { createCutoffDrag, CutoffDragInfo, setCutoff } from "./cutoff-drag";
+import { createFigureExport, FigureExport } from "./figure-export";
+import { FilterSettings, RawData, RawDataCategory, SampleCutoffs } from "~/types";
 
 type Props = {
   data: RawDataCategory;
+  category: keyof RawData;
   filterSettings: FilterSettings;
   additionalAxes: boolean;
+  // show the cells removed by the applied filters on top of the passing cells
+  showRemoved?: boolean;
+  updateFilterSettings: (fn: (settings: FilterSettings) => FilterSettings) => void;
 };
 
 function histogramData(props: {
   data: RawDataCategory;
-  valueName: string;
-  numBins: number;
+  counts: BinCountsResult;
   groupName?: string;
-  zoomMin?: number;
-  zoomMax?: number;
   additionalAxes?: boolean;
 }): Partial<PlotData>[] {
-  const column = props.data.columns.find(c => c.name === props.valueName);
-  if (!column) return [];
-
   const groupColumn = props.groupName
-    ? props.data.columns.find(c => c.name === props.groupName)
+    ? getColumn(props.data, props.groupName)
     : undefined;
-  if (props.groupName && !groupColumn) return [];
-
-  const values = column.data as number[];
-  const groupValues = groupColumn ? groupColumn.data as number[] : undefined;
-
-  const globalMin = _.min(values)!;
-  const globalMax = _.max(values)!;
-  const actualMin = props.zoomMin !== undefined ? props.zoomMin : globalMin;
-  const actualMax = props.zoomMax !== undefined ? props.zoomMax : globalMax;
-  const binSize = (actualMax - actualMin) / props.numBins;
 
-  const { binCounts, groupCounts } = calculateBinCounts(
-    values, actualMin, actualMax, props.numBins, groupValues
-  );
+  // use the binning the counts were computed with, the settings may have changed in the meantime
+  const { binCounts, groupCounts, groups, numBins, passCounts, passGroupCounts } = props.counts;
+  const [globalMin, globalMax] = props.counts.extent;
+  const [actualMin, actualMax] = props.counts.range;
+  const binSize = (actualMax - actualMin) / numBins;
 
   const roundingBase = Math.floor(Math.log10(binSize));
   const roundFun = (v: number) => v.toFixed(_.clamp(-roundingBase, 0, 15));
@@ -48,21 +47,39 @@ function histogramData(props: {
   const x = x0.map((start, i) => (start + x1[i]) / 2);
   
   const binLabels = createBinLabels(
-    binCounts, x0, x1, roundFun, globalMin, globalMax, props.numBins
+    binCounts, x0, x1, roundFun, globalMin, globalMax, numBins
   );
 
   const plotOverall = (props.additionalAxes && props.groupName !== undefined) ||
                      (!props.additionalAxes && props.groupName === undefined);
 
+  // cells removed by the filters are stacked on top of the passing cells when they are shown
+  const removedBars = (counts: number[], passing: number[], yaxis: string): Partial<PlotData> => {
+    const removed = counts.map((count, i) => count - passing[i]);
+    return {
+      type: "bar" as const,
+      x: x,
+      y: removed,
+      marker: { color: recurringColours.fail },
+      hovertext: createBinLabels(removed, x0, x1, roundFun, globalMin, globalMax, numBins).map(label => `Removed ${label}`),
+      hoverinfo: "text",
+      name: "Removed",
+      xaxis: "x",
+      yaxis,
+    };
+  };
+
   const overall: Partial<PlotData>[] = plotOverall
     ? [{
         type: "bar" as const,
         x: x,
-        y: binCounts,
+        y: passCounts ?? binCounts,
         marker: { color: recurringColours.pass },
-        hovertext: binLabels,
+        hovertext: passCounts
+          ? createBinLabels(passCounts, x0, x1, roundFun, globalMin, globalMax, numBins)
+          : binLabels,
         hoverinfo: "text",
-        name: "Overall",
+        name: passCounts ? "Pass" : "Overall",
         xaxis: "x",
         yaxis: "y",
       }]
@@ -70,15 +87,16 @@ function histogramData(props: {
 
   const perGroup: Partial<PlotData>[] = groupCounts 
     ? groupCounts.map((counts, i) => {
+        const shownCounts = passGroupCounts?.[i] ?? counts;
         const groupLabels = createBinLabels(
-          counts, x0, x1, roundFun, globalMin, globalMax, props.numBins
+          shownCounts, x0, x1, roundFun, globalMin, globalMax, numBins
         );
         
         return {
           type: "bar" as const,
           x: x,
-          y: counts,
-          name: groupColumn?.categories![i],
+          y: shownCounts,
+          name: groupColumn?.categories![groups![i]],
           hovertext: groupLabels,
           hoverinfo: "text",
           xaxis: "x",
@@ -87,14 +105,26 @@ function histogramData(props: {
       })
     : [];
 
-  return overall.concat(perGroup);
+  const removed: Partial<PlotData>[] = [];
+  if (passCounts && plotOverall) {
+    removed.push(removedBars(binCounts, passCounts, "y"));
+  }
+  if (passGroupCounts && groupCounts) {
+    groupCounts.forEach((counts, i) => {
+      removed.push(removedBars(counts, passGroupCounts[i], props.additionalAxes ? `y${i + 2}` : "y"));
+    });
+  }
+
+  return overall.concat(perGroup, removed);
 }
 
 function histogramLayout(props: {
   data: RawDataCategory;
+  groups?: number[];
   xTitle: string;
   minCutoff?: number;
   maxCutoff?: number;
+  filterSettings?: FilterSettings;
   groupName?: string;
   additionalAxes: boolean;
   xType: "log" | "linear";
@@ -105,14 +135,16 @@ function histogramLayout(props: {
   let sampleYAxes: { [key: string]: Partial<Layout["yaxis"]> } = {};
   let grid: Partial<Layout["grid"]> = {};
   let plotHeight = 1.0;
+  let shapes = cutoffShape("Min", props.minCutoff).concat(
+    cutoffShape("Max", props.maxCutoff),
+  );
 
   const groupColumn = props.groupName
-    ? props.data.columns.find(c => c.name === props.groupName)
+    ? getColumn(props.data, props.groupName)
     : undefined;
     
   if (groupColumn && props.additionalAxes) {
-    const actualValues = groupColumn.data as number[];
-    const uniqueIndices = Array.from(new Set(actualValues)).sort((a, b) => a - b);
+    const uniqueIndices = props.groups ?? [];
     
     const groupNames = groupColumn.categories 
       ? uniqueIndices.map(idx => groupColumn.categories![idx])
@@ -150,6 +182,19 @@ function histogramLayout(props: {
     };
     
     height = Math.max(200, 75 * (groupNames.length + 1));
+
+    // Draw the cutoffs of each sample in its own subplot when some samples have their own cutoffs
+    if (props.groupName === "sample_id" && !_.isEmpty(props.filterSettings?.sampleCutoffs)) {
+      const filterSettings = props.filterSettings!;
+      const cutoffShapes = (cutoffs: SampleCutoffs, yref: Shape["yref"], sample?: string) =>
+        cutoffShape("Min", cutoffs.cutoffMin, yref, sample).concat(cutoffShape("Max", cutoffs.cutoffMax, yref, sample));
+
+      shapes = cutoffShapes(sampleCutoffs(filterSettings, undefined), "y domain").concat(
+        ...groupNames.map((sample, i) =>
+          cutoffShapes(sampleCutoffs(filterSettings, sample), `y${i + 2} domain` as Shape["yref"], sample)
+        )
+      );
+    }
   }
 
   annotations.push(createAxisAnnotation("Total", 1.0 - plotHeight/2));
@@ -171,9 +216,7 @@ function histogramLayout(props: {
     },
     ...sampleYAxes,
     annotations,
-    shapes: cutoffShape("Min", props.minCutoff).concat(
-      cutoffShape("Max", props.maxCutoff),
-    ),
+    shapes,
     showlegend: false,
     height,
     barmode: "stack",
@@ -189,29 +232,86 @@ function histogramLayout(props: {
 }
 
 export function Histogram(props: Props) {
+  // binning is done by the compute worker, the plot is only updated once the counts are available
+  const [counts] = createComputeResource(() => ({
+    type: "binCounts" as const,
+    category: props.category,
+    rows: props.data.index,
+    field: props.filterSettings.field,
+    groupBy: props.filterSettings.groupBy,
+    numBins: props.filterSettings.nBins || 50, // Add default value of 50
+    zoomMin: props.filterSettings.zoomMin,
+    zoomMax: props.filterSettings.zoomMax,
+    splitByStatus: props.showRemoved,
+  }));
+
+  // dragged cutoffs can be snapped to the edges of the bins the counts were computed with
+  const [snapToBins, setSnapToBins] = createSignal(false);
+  const snap = (value: number) => {
+    if (!snapToBins() || !counts.latest) return value;
+    const [actualMin, actualMax] = counts.latest.range;
+    const binSize = (actualMax - actualMin) / counts.latest.numBins;
+    return actualMin + Math.round((value - actualMin) / binSize) * binSize;
+  };
+
+  const drag = createCutoffDrag(
+    (cutoff) => props.updateFilterSettings((settings) => setCutoff(settings, cutoff)),
+    snap,
+  );
+
+  const figure = createFigureExport(() => figureName(props.category, props.filterSettings.field));
+
+  const data = drag.freeze(() => counts.latest ? histogramData({
+    data: props.data,
+    counts: counts.latest,
+    groupName: props.filterSettings.groupBy,
+    additionalAxes: props.additionalAxes,
+  }) : []);
+
+  const layout = drag.freeze(() => histogramLayout({
+    data: props.data,
+    groups: counts.latest?.groups,
+    groupName: props.filterSettings.groupBy,
+    xTitle: props.filterSettings.label || props.filterSettings.field, // Use field name as fallback
+    minCutoff: props.filterSettings.cutoffMin,
+    maxCutoff: props.filterSettings.cutoffMax,
+    filterSettings: props.filterSettings,
+    xType: props.filterSettings.xAxisType || "linear",
+    yType: props.filterSettings.yAxisType || "linear",
+    additionalAxes: props.additionalAxes,
+  }));
+
   return (
-    <Plot
-      data={histogramData({
-        data: props.data,
-        valueName: props.filterSettings.field,
-        groupName: props.filterSettings.groupBy,
-        numBins: props.filterSettings.nBins || 50, // Add default value of 50
-        zoomMin: props.filterSettings.zoomMin,
-        zoomMax: props.filterSettings.zoomMax,
-        additionalAxes: props.additionalAxes,
-      })}
-      layout={histogramLayout({
-        data: props.data,
-        groupName: props.filterSettings.groupBy,
-        xTitle: props.filterSettings.label || props.filterSettings.field, // Use field name as fallback
-        minCutoff: props.filterSettings.cutoffMin,
-        maxCutoff: props.filterSettings.cutoffMax,
-        xType: props.filterSettings.xAxisType || "linear",
-        yType: props.filterSettings.yAxisType || "linear",
-        additionalAxes: props.additionalAxes,
-      })}
-      config={plotlyConfig()}
-      useResizeHandler={true}
-    />
+    <BusyIndicator busy={counts.loading}>
+      <Plot
+        data={data()}
+        layout={layout()}
+        config={cutoffDragConfig()}
+        onInitialized={(plot, element) => {
+          drag.onInitialized(plot, element);
+          figure.onInitialized(plot, element);
+        }}
+        useResizeHandler={true}
+      />
+      <div class="flex items-center gap-4">
+        <CutoffDragInfo
+          dragged={drag.dragged()}
+          data={props.data}
+          category={props.category}
+          filterSettings={props.filterSettings}
+          rowName="cells"
+        />
+        <label class="flex items-center gap-1 text-sm">
+          <input
+            type="checkbox"
+            checked={snapToBins()}
+            onChange={(e) => setSnapToBins(e.currentTarget.checked)}
+            class="h-4 w-4"
+          />
+          Snap to bin edges
+        </label>
+        <FigureExport figure={figure.figure} />
+      </div>
+    </BusyIndicator>
   );
-}
\ No newline at end of file
+}
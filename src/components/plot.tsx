@@ -0,0 +1,50 @@
+import Plotly, { Config, Layout, PlotData, PlotlyHTMLElement } from "plotly.js-dist-min";
+import { createEffect, JSX, onCleanup, onMount } from "solid-js";
+
+export type Figure = {
+  data: Partial<PlotData>[];
+  layout: Partial<Layout>;
+};
+
+type Props = Figure & {
+  config?: Partial<Config>;
+  style?: JSX.CSSProperties;
+  class?: string;
+  // resize the plot with the window
+  useResizeHandler?: boolean;
+  // called once the plot has been drawn for the first time, e.g. to listen to its events
+  onInitialized?: (figure: Figure, element: PlotlyHTMLElement) => void;
+};
+
+/**
+ * A plotly.js plot that is redrawn when its data, layout or config change. Plots use the plotly.js of the
+ * report rather than a copy bundled with a plot component, so it is included once and its functions, e.g.
+ * toImage, work on the plots.
+ */
+export default function Plot(props: Props) {
+  let element!: HTMLDivElement;
+
+  onMount(() => {
+    let initialized = false;
+    createEffect(() => {
+      Plotly.react(element, props.data, props.layout ?? {}, props.config)
+        .then((plot) => {
+          if (initialized) return;
+          initialized = true;
+          props.onInitialized?.({ data: plot.data as Partial<PlotData>[], layout: plot.layout }, plot);
+        })
+        .catch((err) => console.error("Error drawing plot:", err));
+    });
+
+    createEffect(() => {
+      if (!props.useResizeHandler) return;
+      const resize = () => Plotly.Plots.resize(element);
+      window.addEventListener("resize", resize);
+      onCleanup(() => window.removeEventListener("resize", resize));
+    });
+
+    onCleanup(() => Plotly.purge(element));
+  });
+
+  return <div ref={element} style={props.style} class={props.class} />;
+}
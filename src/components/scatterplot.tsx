@@ -1,14 +1,24 @@
-import Plot from "@ralphsmith80/solid-plotly.js";
+import Plot from "./plot";
 import { Layout, PlotData } from "plotly.js-dist-min";
-import { plotlyConfig, createScatterTrace, createBasicLayout } from "~/lib/plots";
-import { FilterSettings, RawDataCategory } from "~/types";
-import { createMemo } from "solid-js";
+import { plotlyConfig, createScatterTrace, createBasicLayout, removedCellsTrace, selectionConfig } from "~/lib/plots";
+import { columnValues, rowAt, uniqueValues } from "~/lib/column-utils";
+import { qcPassTest } from "~/lib/filter-engine";
+import { figureName } from "~/lib/figure-export";
+import { FilterSettings, PolygonGate, RawData, RawDataCategory } from "~/types";
+import { createMemo, Show } from "solid-js";
+import { createPlotSelection, GateSelectionBar } from "./gate-selection";
+import { createFigureExport, FigureExport } from "./figure-export";
 
 type Props = {
   data: RawDataCategory;
+  category: keyof RawData;
   filterSettings: FilterSettings;
   additionalAxes: boolean;
   colorFieldName?: string;
+  // show the cells removed by the applied filters as a faded layer
+  showRemoved?: boolean;
+  // called with a polygon drawn on a spatial plot, in the coordinates of the plotted fields
+  onCreateGate?: (vertices: PolygonGate["vertices"], keep: PolygonGate["keep"]) => void;
 };
 
 export function ScatterPlot(props: Props) {
@@ -49,68 +59,50 @@ export function ScatterPlot(props: Props) {
     
     if (!xColumn || !yColumn) return [];
     
-    const xValues = xColumn.data;
-    const yValues = yColumn.data;
+    const xValues = columnValues(props.data, xColumn);
+    const yValues = columnValues(props.data, yColumn);
+    const colorValues = props.colorFieldName ? getColorValues() : undefined;
+    const colorbarTitle = props.filterSettings.label || props.colorFieldName || ""; // Use the human-readable label when available
+
+    // cells removed by the applied filters are drawn as a faded layer below the passing cells
+    const passTest = props.showRemoved ? qcPassTest(props.data) : undefined;
+    const passing = passTest ? Array.from({ length: props.data.num_rows }, (_, idx) => passTest(rowAt(props.data, idx))) : undefined;
+
+    const traces = (indices: number[], name: string, axisIndex: number, showColorbar: boolean) => {
+      const shown = passing ? indices.filter(idx => passing[idx]) : indices;
+      const trace = createScatterTrace(
+        shown.map(idx => xValues[idx]),
+        shown.map(idx => yValues[idx]),
+        name,
+        colorValues ? shown.map(idx => colorValues[idx]) : undefined,
+        isSpatial(),
+        axisIndex,
+        showColorbar,
+        colorbarTitle
+      );
+      if (!passing) return [trace];
+
+      const removed = indices.filter(idx => !passing[idx]);
+      return [removedCellsTrace(removed.map(idx => xValues[idx]), removed.map(idx => yValues[idx]), isSpatial(), axisIndex), trace];
+    };
     
     if (!props.filterSettings.groupBy) {
-      return [createScatterTrace(
-        xValues, 
-        yValues, 
-        "All Data", 
-        props.colorFieldName ? getColorValues() : undefined,
-        isSpatial(),
-        0,
-        props.colorFieldName !== undefined,
-        props.filterSettings.label || props.colorFieldName || "" // Use the human-readable label when available
-      )];
+      return traces(xValues.map((_, idx) => idx), "All Data", 0, props.colorFieldName !== undefined);
     }
     
     const groupColumn = props.data.columns.find(c => c.name === props.filterSettings.groupBy);
     if (!groupColumn) return [];
     
-    const groupValues = groupColumn.data;
-    const uniqueGroups = [...new Set(groupValues)].sort();
-    
-    if (props.additionalAxes) {
-      const plots: Partial<PlotData>[] = [];
-      
-      uniqueGroups.forEach((group, i) => {
-        const indices = groupValues.map((val, idx) => val === group ? idx : -1).filter(idx => idx !== -1);
-        const filteredX = indices.map(idx => xValues[idx]);
-        const filteredY = indices.map(idx => yValues[idx]);
-        const groupName = groupColumn.categories?.[group] || `Group ${group}`;
-        
-        plots.push(createScatterTrace(
-          filteredX, 
-          filteredY, 
-          groupName,
-          props.colorFieldName ? indices.map(idx => getColorValues()?.[idx]) : undefined,
-          isSpatial(),
-          i + 1,
-          i === uniqueGroups.length - 1 && props.colorFieldName !== undefined,
-          props.filterSettings.label || props.colorFieldName || ""
-        ));
-      });
-      
-      return plots;
-    }
+    const groupValues = columnValues(props.data, groupColumn);
+    const uniqueGroups = uniqueValues(props.data, groupColumn);
     
-    return uniqueGroups.map((group, i) => {
+    return uniqueGroups.flatMap((group, i) => {
       const indices = groupValues.map((val, idx) => val === group ? idx : -1).filter(idx => idx !== -1);
-      const filteredX = indices.map(idx => xValues[idx]);
-      const filteredY = indices.map(idx => yValues[idx]);
       const groupName = groupColumn.categories?.[group] || `Group ${group}`;
       
-      return createScatterTrace(
-        filteredX, 
-        filteredY, 
-        groupName,
-        props.colorFieldName ? indices.map(idx => getColorValues()?.[idx]) : undefined,
-        isSpatial(),
-        0,
-        i === 0 && props.colorFieldName !== undefined,
-        props.filterSettings.label || props.colorFieldName || ""
-      );
+      return props.additionalAxes
+        ? traces(indices, groupName, i + 1, i === uniqueGroups.length - 1 && props.colorFieldName !== undefined)
+        : traces(indices, groupName, 0, i === 0 && props.colorFieldName !== undefined);
     });
   });
   
@@ -119,7 +111,7 @@ export function ScatterPlot(props: Props) {
     if (!colorField) return undefined;
     
     const colorColumn = props.data.columns.find(c => c.name === colorField);
-    return colorColumn?.data;
+    return colorColumn ? columnValues(props.data, colorColumn) : undefined;
   }
   
   const plotLayout = createMemo(() => {
@@ -133,8 +125,7 @@ export function ScatterPlot(props: Props) {
     const groupColumn = props.data.columns.find(c => c.name === props.filterSettings.groupBy);
     if (!groupColumn) return createBasicLayout(xTitle, yTitle, 400, isSpatial());
     
-    const groupValues = groupColumn.data;
-    const uniqueGroups = [...new Set(groupValues)].sort();
+    const uniqueGroups = uniqueValues(props.data, groupColumn);
     const numGroups = uniqueGroups.length;
     
     if (numGroups === 1) {
@@ -226,12 +217,35 @@ export function ScatterPlot(props: Props) {
     return layout;
   });
   
+  const selection = createPlotSelection();
+
+  const figure = createFigureExport(() => isSpatial()
+    ? figureName(props.category, props.colorFieldName || props.filterSettings.field, "spatial")
+    : figureName(props.category, xFieldName(), "vs", yFieldName()));
+  
   return (
-    <Plot
-      data={plotData()}
-      layout={plotLayout()}
-      config={plotlyConfig()}
-      style={{ width: "100%", height: "100%" }}
-    />
+    <>
+      <Plot
+        data={plotData()}
+        layout={plotLayout()}
+        config={isSpatial() ? selectionConfig(true) : plotlyConfig()}
+        style={{ width: "100%", height: "100%" }}
+        onInitialized={(plot, element) => {
+          selection.onInitialized(plot, element);
+          figure.onInitialized(plot, element);
+        }}
+      />
+      <Show when={isSpatial() && props.onCreateGate}>
+        <GateSelectionBar
+          selection={selection.selection()}
+          onCreate={(keep) => {
+            props.onCreateGate!(selection.selection()!, keep);
+            selection.clear();
+          }}
+          onCancel={selection.clear}
+        />
+      </Show>
+      <FigureExport figure={figure.figure} />
+    </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,50 @@
+import Plot from "./plot";
+import { plotlyConfig, violinData, violinLayout } from "~/lib/plots";
+import { getColumn } from "~/lib/column-utils";
+import { createComputeResource } from "~/lib/compute-service";
+import { figureName } from "~/lib/figure-export";
+import { BusyIndicator } from "./busy-indicator";
+import { createFigureExport, FigureExport } from "./figure-export";
+import { FilterSettings, RawData, RawDataCategory } from "~/types";
+
+type Props = {
+  data: RawDataCategory;
+  category: keyof RawData;
+  filterSettings: FilterSettings;
+  mode: "violin" | "box";
+};
+
+export function ViolinPlot(props: Props) {
+  // the quartiles and the subsample for the violins are computed by the compute worker
+  const [distribution] = createComputeResource(() => ({
+    type: "distribution" as const,
+    category: props.category,
+    rows: props.data.index,
+    field: props.filterSettings.field,
+    groupBy: props.filterSettings.groupBy,
+  }));
+
+  const groupNames = () => getColumn(props.data, props.filterSettings.groupBy)?.categories;
+
+  const figure = createFigureExport(() => figureName(props.category, props.filterSettings.field, props.mode));
+
+  return (
+    <BusyIndicator busy={distribution.loading}>
+      <Plot
+        data={distribution.latest ? violinData(distribution.latest, props.mode, groupNames()) : []}
+        layout={violinLayout(
+          props.filterSettings.label || props.filterSettings.field,
+          distribution.latest?.groups.length ?? 1,
+          props.filterSettings.cutoffMin,
+          props.filterSettings.cutoffMax,
+          props.filterSettings.xAxisType || "linear",
+          props.filterSettings.groupBy,
+        )}
+        config={plotlyConfig()}
+        useResizeHandler={true}
+        onInitialized={figure.onInitialized}
+      />
+      <FigureExport figure={figure.figure} />
+    </BusyIndicator>
+  );
+}
@@ -0,0 +1,126 @@
+import { AutoThreshold, RawDataCategory, SampleCutoffs } from "~/types";
+import { getColumn, rowAt } from "./column-utils";
+
+export type AutoThresholdResult = SampleCutoffs & {
+  // cutoffs of each sample, only when the thresholds are computed per sample
+  sampleCutoffs?: Record<string, SampleCutoffs>;
+};
+
+export const autoThresholdDefaults: AutoThreshold = {
+  method: "mad",
+  k: 3,
+  lowerPercentile: 1,
+  upperPercentile: 99,
+  bounds: "both",
+  perSample: false,
+};
+
+// Scales the MAD to the standard deviation of normally distributed values, as R's mad() does
+const MAD_SCALE = 1.4826;
+
+// Quantile of sorted values with linear interpolation, p between 0 and 1
+export function quantile(sorted: ArrayLike<number>, p: number): number {
+  const pos = (sorted.length - 1) * p;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+function median(sorted: Float64Array): number {
+  return quantile(sorted, 0.5);
+}
+
+function madCutoffs(sorted: Float64Array, k: number): [number, number] {
+  const center = median(sorted);
+  const deviations = sorted.map(value => Math.abs(value - center)).sort();
+  const mad = median(deviations) * MAD_SCALE;
+  return [center - k * mad, center + k * mad];
+}
+
+// Cutoffs for a set of values, which can be in any order. Missing values are ignored.
+export function thresholdCutoffs(values: ArrayLike<number>, auto: AutoThreshold): SampleCutoffs {
+  const finite = Array.from(values).filter(value => Number.isFinite(value));
+  if (auto.method === "log_mad") {
+    // values of -1 and below can not be log transformed
+    const logValues = Float64Array.from(finite.filter(value => value > -1), Math.log1p).sort();
+    if (logValues.length === 0) return {};
+    const [min, max] = madCutoffs(logValues, auto.k ?? 3);
+    return selectBounds(Math.expm1(min), Math.expm1(max), auto);
+  }
+
+  const sorted = Float64Array.from(finite).sort();
+  if (sorted.length === 0) return {};
+
+  if (auto.method === "percentile") {
+    const min = quantile(sorted, (auto.lowerPercentile ?? 0) / 100);
+    const max = quantile(sorted, (auto.upperPercentile ?? 100) / 100);
+    return selectBounds(min, max, auto);
+  }
+
+  const [min, max] = madCutoffs(sorted, auto.k ?? 3);
+  return selectBounds(min, max, auto);
+}
+
+function selectBounds(min: number, max: number, auto: AutoThreshold): SampleCutoffs {
+  return {
+    cutoffMin: auto.bounds !== "upper" ? min : undefined,
+    cutoffMax: auto.bounds !== "lower" ? max : undefined,
+  };
+}
+
+/**
+ * Derive the cutoffs of a field from the rows of a category. When the thresholds are computed
+ * per sample, the global cutoffs are derived from all rows and used for samples without cells.
+ */
+export function computeAutoThreshold(
+  category: RawDataCategory,
+  field: string,
+  auto: AutoThreshold
+): AutoThresholdResult | undefined {
+  const column = getColumn(category, field);
+  if (!column) return undefined;
+
+  const values = new Float64Array(category.num_rows);
+  for (let i = 0; i < category.num_rows; i++) {
+    values[i] = column.data[rowAt(category, i)] ?? NaN;
+  }
+  const result: AutoThresholdResult = thresholdCutoffs(values, auto);
+
+  const sampleColumn = getColumn(category, "sample_id");
+  if (!auto.perSample || !sampleColumn?.categories) return result;
+
+  // collect the values of each sample by the category code of the sample
+  const valuesBySample = new Map<number, number[]>();
+  for (let i = 0; i < category.num_rows; i++) {
+    const code = sampleColumn.data[rowAt(category, i)];
+    if (!valuesBySample.has(code)) valuesBySample.set(code, []);
+    valuesBySample.get(code)!.push(values[i]);
+  }
+
+  result.sampleCutoffs = {};
+  for (const [code, sampleValues] of valuesBySample) {
+    const sample = sampleColumn.categories[code];
+    if (sample === undefined) continue;
+    result.sampleCutoffs[sample] = thresholdCutoffs(sampleValues, auto);
+  }
+  return result;
+}
+
+// Human readable description of how the thresholds were derived, e.g. for exports
+export function describeAutoThreshold(auto: AutoThreshold): string {
+  const scope = auto.perSample ? ", per sample" : "";
+  const sign = auto.bounds === "lower" ? "-" : auto.bounds === "upper" ? "+" : "±";
+  switch (auto.method) {
+    case "percentile": {
+      const bounds = [
+        auto.bounds !== "upper" ? `lower: ${auto.lowerPercentile ?? 0}th percentile` : undefined,
+        auto.bounds !== "lower" ? `upper: ${auto.upperPercentile ?? 100}th percentile` : undefined,
+      ];
+      return `${bounds.filter(Boolean).join(", ")}${scope}`;
+    }
+    case "log_mad":
+      return `median ${sign} ${auto.k ?? 3} MAD of log1p values${scope}`;
+    default:
+      return `median ${sign} ${auto.k ?? 3} MAD${scope}`;
+  }
+}
@@ -1,6 +1,7 @@
 import _ from "lodash";
 import { Layout, PlotData } from "plotly.js-dist-min";
 import { cutoffShape, recurringColours } from "./plots";
+import { columnValues } from "./column-utils";
 import { RawDataCategory } from "~/types";
 
 export function createBarData(props: {
@@ -29,8 +30,8 @@ export function createBarData(props: {
     return [];
   }
 
-  const x = column.data as number[];
-  const y = sampleColumn.data.map((i) => sampleColumn.categories![i as number]);
+  const x = columnValues(props.data, column) as number[];
+  const y = columnValues(props.data, sampleColumn).map((i) => sampleColumn.categories![i as number]);
 
   if (groupColumn === undefined) {
     return [
@@ -43,7 +44,7 @@ export function createBarData(props: {
       }
     ]
   } else {
-    const col = groupColumn?.data.map((i) => groupColumn.categories![i as number]);
+    const col = columnValues(props.data, groupColumn).map((i) => groupColumn.categories![i as number]);
     return col.map((value, i) => (
       {
         x: [x[i]],
@@ -0,0 +1,60 @@
+import { RawDataCategory, RawDataColumn, FilterSettings } from "~/types";
+import { getColumn, isMissing, rowAt } from "./column-utils";
+import { evaluateFilters, failReason, passes } from "./filter-engine";
+
+export type CellTableFormat = "csv" | "tsv";
+
+// Columns that identify a cell, the first one present is exported
+const CELL_ID_COLUMNS = ["cell_id", "barcode", "cell_barcode", "obs_names"];
+
+// Fields are quoted when they contain the separator, a quote or a line break
+function formatField(value: string, separator: string): string {
+  return value.includes(separator) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function columnValue(column: RawDataColumn | undefined, row: number): string {
+  const value = column?.data[row];
+  if (isMissing(value)) return "";
+  return column!.dtype === "categorical" && column!.categories ? column!.categories[value] ?? "" : String(value);
+}
+
+/**
+ * Table of the cells with their sample, identifier, whether they pass the filters and the filters they fail,
+ * separated by ";". Cells of excluded samples fail with "excluded sample". Without an identifier column the
+ * position of the cell in the data is exported as `row`, which matches the order of the cells in the AnnData.
+ */
+export function cellTable(
+  category: RawDataCategory,
+  filters: FilterSettings[],
+  excludedSamples: string[],
+  format: CellTableFormat,
+): string {
+  const separator = format === "tsv" ? "\t" : ",";
+  const { masks } = evaluateFilters(category, filters);
+  const reasons = filters.map(failReason);
+
+  const sampleColumn = getColumn(category, "sample_id");
+  const idName = CELL_ID_COLUMNS.find(name => getColumn(category, name));
+  const idColumn = getColumn(category, idName);
+  const excluded = new Set(excludedSamples);
+
+  const lines = [["sample_id", idName ?? "row", "qc_pass", "failed_filters"].join(separator)];
+  for (let i = 0; i < category.num_rows; i++) {
+    const row = rowAt(category, i);
+    const sample = columnValue(sampleColumn, row);
+
+    const failed: string[] = excluded.has(sample) ? ["excluded sample"] : [];
+    masks.forEach((mask, j) => {
+      if (mask && !passes(mask, i) && !failed.includes(reasons[j])) failed.push(reasons[j]);
+    });
+
+    const fields = [
+      sample,
+      idColumn ? columnValue(idColumn, row) : String(row),
+      failed.length === 0 ? "pass" : "fail",
+      failed.join(";"),
+    ];
+    lines.push(fields.map(field => formatField(field, separator)).join(separator));
+  }
+  return lines.join("\n") + "\n";
+}
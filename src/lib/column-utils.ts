@@ -0,0 +1,91 @@
+import { RawDataCategory, RawDataColumn } from "~/types";
+
+// Row in the column data for the i-th row of the category
+export function rowAt(category: RawDataCategory, i: number): number {
+  return category.index ? category.index[i] : i;
+}
+
+export function getColumn(category: RawDataCategory, name: string | undefined): RawDataColumn | undefined {
+  return category.columns.find(col => col.name === name);
+}
+
+// Restrict a category to the given rows of the column data
+export function withRows(category: RawDataCategory, rows: Int32Array): RawDataCategory {
+  return {
+    ...category,
+    num_rows: rows.length,
+    index: rows,
+  };
+}
+
+// Add a column to a category, replacing the column of the same name
+export function withColumn(category: RawDataCategory, column: RawDataColumn): RawDataCategory {
+  return {
+    ...category,
+    columns: category.columns.filter(col => col.name !== column.name).concat(column),
+  };
+}
+
+// Copy the values of a column for the rows of the category into a regular array, e.g. to pass them to plotly.
+// Only use this for plots that need all values, the filtering and binning code works on the rows directly.
+export function columnValues(category: RawDataCategory, column: RawDataColumn): any[] {
+  if (!category.index && Array.isArray(column.data)) {
+    return column.data;
+  }
+  const values = new Array(category.num_rows);
+  for (let i = 0; i < category.num_rows; i++) {
+    values[i] = column.data[rowAt(category, i)];
+  }
+  return values;
+}
+
+export function isMissing(value: any): boolean {
+  return value === undefined || value === null || Number.isNaN(value);
+}
+
+// Categories of a categorical or boolean column, undefined for other columns
+export function columnCategories(column: RawDataColumn): string[] | undefined {
+  if (column.dtype === "boolean") return ["true", "false"];
+  return column.dtype === "categorical" ? column.categories : undefined;
+}
+
+// Position in columnCategories of the value of a row of the column data, -1 for missing values
+export function categoryIndex(column: RawDataColumn, row: number): number {
+  const value = column.data[row];
+  if (isMissing(value)) return -1;
+  if (column.dtype === "boolean") return value ? 0 : 1;
+  return value >= 0 && value < (column.categories?.length ?? 0) ? value : -1;
+}
+
+// Number of rows of the category in each of the column's categories, in the order of columnCategories
+export function categoryCounts(category: RawDataCategory, column: RawDataColumn): number[] {
+  const counts = new Array<number>(columnCategories(column)?.length ?? 0).fill(0);
+  for (let i = 0; i < category.num_rows; i++) {
+    const index = categoryIndex(column, rowAt(category, i));
+    if (index !== -1) counts[index]++;
+  }
+  return counts;
+}
+
+// Sorted unique values of a column for the rows of the category, without missing values
+export function uniqueValues(category: RawDataCategory, column: RawDataColumn): number[] {
+  const unique = new Set<number>();
+  for (let i = 0; i < category.num_rows; i++) {
+    const value = column.data[rowAt(category, i)];
+    if (!isMissing(value)) unique.add(value);
+  }
+  return Array.from(unique).sort((a, b) => a - b);
+}
+
+// Minimum and maximum of a column for the rows of the category, without missing values
+export function columnExtent(category: RawDataCategory, column: RawDataColumn): [number, number] | undefined {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < category.num_rows; i++) {
+    const value = column.data[rowAt(category, i)];
+    if (isMissing(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return min <= max ? [min, max] : undefined;
+}
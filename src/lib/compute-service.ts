@@ -0,0 +1,133 @@
+import { createMemo, createResource, createUniqueId, onCleanup } from "solid-js";
+import _ from "lodash";
+import { RawData, RawDataColumn } from "~/types";
+import { withColumn } from "./column-utils";
+import { ComputeRequest, ComputeResponse, ComputeResults, handleComputeRequest } from "./compute";
+import ComputeWorker from "./compute.worker?worker&inline";
+
+type PendingRequest = {
+  resolve: (result: any) => void;
+  reject: (reason: unknown) => void;
+};
+
+export function createComputeService() {
+  let worker: Worker | undefined;
+  // only used when the computations run on the main thread
+  let localData: RawData | undefined;
+
+  try {
+    worker = new ComputeWorker();
+  } catch (err) {
+    console.warn("Could not start the compute worker, computing on the main thread instead:", err);
+  }
+
+  let nextId = 0;
+  const pending = new Map<number, PendingRequest>();
+  // latest request per channel, older requests on the same channel are cancelled
+  const channels = new Map<string, number>();
+
+  worker?.addEventListener("message", (event: MessageEvent<ComputeResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+
+    if ("error" in response) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.result);
+    }
+  });
+
+  const cancel = (channel: string) => {
+    const id = channels.get(channel);
+    if (id === undefined) return;
+    channels.delete(channel);
+
+    const request = pending.get(id);
+    if (request) {
+      pending.delete(id);
+      worker?.postMessage({ type: "cancel", id });
+      request.reject(new DOMException("The request was superseded", "AbortError"));
+    }
+  };
+
+  const setData = (data: RawData) => {
+    // results for the previous dataset are no longer relevant
+    for (const channel of Array.from(channels.keys())) {
+      cancel(channel);
+    }
+    localData = data;
+    worker?.postMessage({ type: "load", data });
+  };
+
+  // Derived columns are sent on their own, requests sent afterwards can use them
+  const setColumn = (category: keyof RawData, column: RawDataColumn) => {
+    if (localData) {
+      localData = { ...localData, [category]: withColumn(localData[category], column) };
+    }
+    worker?.postMessage({ type: "column", category, column });
+  };
+
+  const request = <K extends ComputeRequest["type"]>(
+    channel: string,
+    request: Extract<ComputeRequest, { type: K }>
+  ): Promise<ComputeResults[K]> => {
+    cancel(channel);
+
+    if (!worker) {
+      try {
+        return Promise.resolve(handleComputeRequest<K>(localData!, request));
+      } catch (err) {
+        return Promise.reject(err);
+      }
+    }
+
+    const id = nextId++;
+    channels.set(channel, id);
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      worker!.postMessage({ type: "compute", id, request });
+    });
+  };
+
+  return { setData, setColumn, request, cancel };
+}
+
+export type ComputeService = ReturnType<typeof createComputeService>;
+
+let service: ComputeService | undefined;
+
+export function getComputeService(): ComputeService {
+  if (!service) {
+    service = createComputeService();
+  }
+  return service;
+}
+
+// Row indices are compared by identity, comparing their contents would defeat the purpose
+function isSameRequest(a: ComputeRequest | undefined, b: ComputeRequest | undefined) {
+  return _.isEqualWith(a, b, (x, y) => ArrayBuffer.isView(x) || ArrayBuffer.isView(y) ? x === y : undefined);
+}
+
+/**
+ * Create a resource which is computed by the compute service. A new request is only sent when
+ * the request changes, and any pending request of the same resource is cancelled.
+ * No request is sent while the source returns undefined. The result can be passed through resolve,
+ * which is called with the request before the resource gets the value.
+ */
+export function createComputeResource<K extends ComputeRequest["type"], T = ComputeResults[K]>(
+  source: () => Extract<ComputeRequest, { type: K }> | undefined,
+  resolve?: (result: ComputeResults[K], request: Extract<ComputeRequest, { type: K }>) => T
+) {
+  const compute = getComputeService();
+  const channel = createUniqueId();
+  const request = createMemo(source, undefined, { equals: isSameRequest });
+
+  onCleanup(() => compute.cancel(channel));
+
+  return createResource(request, async (req): Promise<T> => {
+    const result = await compute.request<K>(channel, req);
+    return resolve ? resolve(result, req) : result as T;
+  });
+}
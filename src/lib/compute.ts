@@ -0,0 +1,432 @@
+import {
+  AutoThreshold,
+  FilterSettings,
+  HeatmapData,
+  HeatmapGrid,
+  NumericArray,
+  RawData,
+  RawDataCategory,
+  RawDataColumn,
+} from "~/types";
+import { AutoThresholdResult, computeAutoThreshold, quantile } from "./auto-threshold";
+import { cellTable, CellTableFormat } from "./cell-export";
+import { columnExtent, getColumn, rowAt, uniqueValues, withRows } from "./column-utils";
+import {
+  countPassing,
+  evaluateFilters,
+  filterFunnel,
+  filterMask,
+  filterOverlap,
+  FunnelResult,
+  maskRows,
+  OverlapResult,
+  passes,
+  qcPassTest,
+  qcStatusColumn,
+} from "./filter-engine";
+import { calculateBinCounts } from "./histogram-utils";
+import { CellSummary, cellSummary } from "./multiqc";
+import { binCells, getHeatmapColorValue } from "./plots";
+
+// Every request works on a category of the loaded data, restricted to the given rows of the column data
+type CategoryRequest = {
+  category: keyof RawData;
+  rows?: Int32Array;
+};
+
+export type ComputeRequest =
+  | (CategoryRequest & {
+      type: "passingRows";
+      filters: FilterSettings[];
+    })
+  | (CategoryRequest & {
+      type: "funnel";
+      filters: FilterSettings[];
+    })
+  | (CategoryRequest & {
+      type: "overlap";
+      filters: FilterSettings[];
+    })
+  | (CategoryRequest & {
+      type: "qcStatus";
+      // fingerprint of the loaded dataset, the same filters give another column for another dataset
+      dataset: string;
+      filters: FilterSettings[];
+      // samples failing the sample-level filters
+      excludedSamples?: string[];
+    })
+  | (CategoryRequest & {
+      type: "cellTable";
+      filters: FilterSettings[];
+      excludedSamples: string[];
+      format: CellTableFormat;
+    })
+  | (CategoryRequest & {
+      type: "cellSummary";
+      filters: FilterSettings[];
+      excludedSamples: string[];
+    })
+  | (CategoryRequest & {
+      type: "binCounts";
+      field: string;
+      groupBy?: string;
+      numBins: number;
+      zoomMin?: number;
+      zoomMax?: number;
+      // also count the cells that pass the applied filters, by their QC status
+      splitByStatus?: boolean;
+    })
+  | (CategoryRequest & {
+      type: "distribution";
+      field: string;
+      groupBy?: string;
+    })
+  | (CategoryRequest & {
+      type: "gate";
+      filter: FilterSettings;
+    })
+  | (CategoryRequest & {
+      type: "removedCount";
+      filter: FilterSettings;
+    })
+  | (CategoryRequest & {
+      type: "autoThreshold";
+      field: string;
+      autoThreshold: AutoThreshold;
+    })
+  | (CategoryRequest & {
+      type: "heatmap";
+      xCol: string;
+      yCol: string;
+      numBinsX: number;
+      numBinsY: number;
+      colorField: string;
+      groupBy?: string;
+      // color the bins by the cells that pass the applied filters and count the removed cells
+      splitByStatus?: boolean;
+    });
+
+export type BinCountsResult = {
+  binCounts: number[];
+  groupCounts?: number[][];
+  groups?: number[];
+  // counts of the cells passing the applied filters, when split by their status
+  passCounts?: number[];
+  passGroupCounts?: number[][];
+  // range of the values, before zooming
+  extent: [number, number];
+  // range and number of bins that were used, the counts include a bin below and above the range
+  range: [number, number];
+  numBins: number;
+};
+
+export type DistributionResult = {
+  groups: {
+    // category code of the group, undefined when the values are not grouped
+    group?: number;
+    // sorted subsample of the values, used to draw violins
+    values: Float32Array;
+    numValues: number;
+    q1: number;
+    median: number;
+    q3: number;
+    // most extreme values within 1.5 IQR of the quartiles, as drawn by box plots
+    lowerFence: number;
+    upperFence: number;
+  }[];
+};
+
+export type GatePoints = {
+  x: Float32Array;
+  y: Float32Array;
+};
+
+export type GateResult = {
+  pass: GatePoints;
+  fail: GatePoints;
+  // counts over all cells, also when only a subsample of the points is drawn
+  numRows: number;
+  numPassing: number;
+  // every step-th cell is drawn
+  step: number;
+  xExtent: [number, number];
+  yExtent: [number, number];
+};
+
+export type ComputeResults = {
+  passingRows: Int32Array;
+  funnel: FunnelResult;
+  overlap: OverlapResult;
+  qcStatus: RawDataColumn;
+  cellTable: string;
+  cellSummary: CellSummary;
+  binCounts: BinCountsResult | undefined;
+  heatmap: HeatmapGrid | undefined;
+  distribution: DistributionResult | undefined;
+  gate: GateResult | undefined;
+  // undefined when the filter does not remove anything, e.g. without cutoffs
+  removedCount: number | undefined;
+  autoThreshold: AutoThresholdResult | undefined;
+};
+
+export type ComputeMessage =
+  | { type: "load"; data: RawData }
+  // add a derived column to the loaded data
+  | { type: "column"; category: keyof RawData; column: RawDataColumn }
+  | { type: "compute"; id: number; request: ComputeRequest }
+  | { type: "cancel"; id: number };
+
+export type ComputeResponse =
+  | { id: number; result: ComputeResults[keyof ComputeResults] }
+  | { id: number; error: string };
+
+function computeBinCounts(
+  category: RawDataCategory,
+  request: Extract<ComputeRequest, { type: "binCounts" }>
+): BinCountsResult | undefined {
+  const column = getColumn(category, request.field);
+  if (!column) return undefined;
+
+  const groupColumn = request.groupBy ? getColumn(category, request.groupBy) : undefined;
+  if (request.groupBy && !groupColumn) return undefined;
+
+  const extent = columnExtent(category, column) ?? [0, 0];
+  const actualMin = request.zoomMin !== undefined ? request.zoomMin : extent[0];
+  const actualMax = request.zoomMax !== undefined ? request.zoomMax : extent[1];
+
+  const counts = calculateBinCounts(
+    column.data as NumericArray,
+    actualMin,
+    actualMax,
+    request.numBins,
+    groupColumn?.data as NumericArray | undefined,
+    category.index
+  );
+  const result = { ...counts, extent, range: [actualMin, actualMax] as [number, number], numBins: request.numBins };
+
+  const passTest = request.splitByStatus ? qcPassTest(category) : undefined;
+  if (!passTest) return result;
+
+  const passingRows: number[] = [];
+  for (let i = 0; i < category.num_rows; i++) {
+    const row = rowAt(category, i);
+    if (passTest(row)) passingRows.push(row);
+  }
+  const passing = calculateBinCounts(
+    column.data as NumericArray,
+    actualMin,
+    actualMax,
+    request.numBins,
+    groupColumn?.data as NumericArray | undefined,
+    passingRows
+  );
+
+  // groups without passing cells are left out of the passing counts
+  const emptyCounts = () => new Array<number>(request.numBins + 2).fill(0);
+  const passGroupCounts = counts.groups?.map(group => {
+    const k = passing.groups?.indexOf(group) ?? -1;
+    return k !== -1 ? passing.groupCounts![k] : emptyCounts();
+  });
+
+  return { ...result, passCounts: passing.binCounts, passGroupCounts };
+}
+
+function computeHeatmap(
+  category: RawDataCategory,
+  request: Extract<ComputeRequest, { type: "heatmap" }>
+): HeatmapGrid | undefined {
+  const binData = binCells(category, request.xCol, request.yCol, request.numBinsX, request.numBinsY);
+  if (!binData) return undefined;
+
+  const colorColumn = getColumn(category, request.colorField);
+  if (!colorColumn) return undefined;
+  const colorValues = colorColumn.data as NumericArray;
+
+  const countCells = (bins: HeatmapData, groupValues?: NumericArray, group?: number) =>
+    bins.binIndices.map(row =>
+      row.map(rows => groupValues ? rows.filter(idx => groupValues[idx] === group).length : rows.length)
+    );
+
+  // the bins are colored by the passing cells only, the bins stay the same so the removed cells can be drawn below
+  const passTest = request.splitByStatus ? qcPassTest(category) : undefined;
+  const passBins = passTest
+    ? { ...binData, binIndices: binData.binIndices.map(row => row.map(rows => rows.filter(passTest))) }
+    : binData;
+  const removedCells = (groupValues?: NumericArray, group?: number) => {
+    if (!passTest) return undefined;
+    const all = countCells(binData, groupValues, group);
+    const passing = countCells(passBins, groupValues, group);
+    return all.map((row, j) => row.map((count, i) => count - passing[j][i]));
+  };
+
+  const grid = {
+    xBinCenters: binData.xBinCenters,
+    yBinCenters: binData.yBinCenters,
+  };
+
+  if (!request.groupBy) {
+    return {
+      ...grid,
+      grids: [{
+        z: getHeatmapColorValue(colorColumn.dtype, colorValues, passBins, undefined, undefined),
+        counts: countCells(passBins),
+        removed: removedCells(),
+      }],
+    };
+  }
+
+  const groupColumn = getColumn(category, request.groupBy);
+  if (!groupColumn) return undefined;
+
+  // the bins hold rows of the column data, so the group values are looked up in the column data as well
+  const groupValues = groupColumn.data as NumericArray;
+
+  return {
+    ...grid,
+    grids: uniqueValues(category, groupColumn).map(group => ({
+      group,
+      z: getHeatmapColorValue(colorColumn.dtype, colorValues, passBins, groupValues, group),
+      counts: countCells(passBins, groupValues, group),
+      removed: removedCells(groupValues, group),
+    })),
+  };
+}
+
+// Plotly computes the violin densities on the main thread, so violins are drawn from a subsample
+const MAX_DISTRIBUTION_VALUES = 5000;
+
+function computeDistribution(
+  category: RawDataCategory,
+  request: Extract<ComputeRequest, { type: "distribution" }>
+): DistributionResult | undefined {
+  const column = getColumn(category, request.field);
+  if (!column) return undefined;
+
+  const groupColumn = request.groupBy ? getColumn(category, request.groupBy) : undefined;
+  if (request.groupBy && !groupColumn) return undefined;
+
+  // collect the values of each group, missing values are left out
+  const valuesByGroup = new Map<number | undefined, number[]>();
+  for (let i = 0; i < category.num_rows; i++) {
+    const row = rowAt(category, i);
+    const value = column.data[row];
+    if (value === undefined || value === null || Number.isNaN(value)) continue;
+
+    const group = groupColumn ? groupColumn.data[row] : undefined;
+    if (!valuesByGroup.has(group)) valuesByGroup.set(group, []);
+    valuesByGroup.get(group)!.push(value);
+  }
+
+  const groups = Array.from(valuesByGroup.keys()).sort((a, b) => (a ?? 0) - (b ?? 0));
+  return {
+    groups: groups.map(group => {
+      const sorted = Float64Array.from(valuesByGroup.get(group)!).sort();
+      const q1 = quantile(sorted, 0.25);
+      const q3 = quantile(sorted, 0.75);
+      const iqr = q3 - q1;
+
+      // evenly spaced sorted values keep the shape of the distribution
+      const numSampled = Math.min(sorted.length, MAX_DISTRIBUTION_VALUES);
+      const values = new Float32Array(numSampled);
+      for (let i = 0; i < numSampled; i++) {
+        values[i] = sorted[numSampled > 1 ? Math.round(i * (sorted.length - 1) / (numSampled - 1)) : 0];
+      }
+
+      return {
+        group,
+        values,
+        numValues: sorted.length,
+        q1,
+        median: quantile(sorted, 0.5),
+        q3,
+        lowerFence: sorted.find(value => value >= q1 - 1.5 * iqr)!,
+        upperFence: sorted.findLast(value => value <= q3 + 1.5 * iqr)!,
+      };
+    }),
+  };
+}
+
+// WebGL scatter plots stay responsive up to about this many points
+const MAX_GATE_POINTS = 100000;
+
+// Points of a metric-vs-metric scatter plot, split by whether they pass the filter
+function computeGate(
+  category: RawDataCategory,
+  request: Extract<ComputeRequest, { type: "gate" }>
+): GateResult | undefined {
+  const xColumn = getColumn(category, request.filter.field);
+  const yColumn = getColumn(category, request.filter.yField);
+  if (!xColumn || !yColumn) return undefined;
+
+  const xExtent = columnExtent(category, xColumn);
+  const yExtent = columnExtent(category, yColumn);
+  if (!xExtent || !yExtent) return undefined;
+
+  const mask = filterMask(category, request.filter);
+  const numPassing = mask ? countPassing(mask) : category.num_rows;
+
+  const step = Math.ceil(category.num_rows / MAX_GATE_POINTS);
+  const pass = { x: [] as number[], y: [] as number[] };
+  const fail = { x: [] as number[], y: [] as number[] };
+  for (let i = 0; i < category.num_rows; i += step) {
+    const row = rowAt(category, i);
+    const points = !mask || passes(mask, i) ? pass : fail;
+    points.x.push(xColumn.data[row]);
+    points.y.push(yColumn.data[row]);
+  }
+
+  return {
+    pass: { x: Float32Array.from(pass.x), y: Float32Array.from(pass.y) },
+    fail: { x: Float32Array.from(fail.x), y: Float32Array.from(fail.y) },
+    numRows: category.num_rows,
+    numPassing,
+    step,
+    xExtent,
+    yExtent,
+  };
+}
+
+// Rows removed by a filter on its own
+function countRemoved(category: RawDataCategory, filter: FilterSettings): number | undefined {
+  const mask = filterMask(category, filter);
+  return mask ? category.num_rows - countPassing(mask) : undefined;
+}
+
+export function handleComputeRequest<K extends ComputeRequest["type"]>(
+  data: RawData,
+  request: Extract<ComputeRequest, { type: K }>
+): ComputeResults[K] {
+  // typescript does not narrow K together with the request, hence the casts
+  const req = request as ComputeRequest;
+  const category = req.rows
+    ? withRows(data[req.category], req.rows)
+    : data[req.category];
+
+  switch (req.type) {
+    case "passingRows":
+      return maskRows(category, evaluateFilters(category, req.filters).combined) as ComputeResults[K];
+    case "funnel":
+      return filterFunnel(category, req.filters) as ComputeResults[K];
+    case "overlap":
+      return filterOverlap(category, req.filters) as ComputeResults[K];
+    case "qcStatus":
+      return qcStatusColumn(category, req.filters, req.excludedSamples) as ComputeResults[K];
+    case "cellTable":
+      return cellTable(category, req.filters, req.excludedSamples, req.format) as ComputeResults[K];
+    case "cellSummary":
+      return cellSummary(category, req.filters, req.excludedSamples) as ComputeResults[K];
+    case "binCounts":
+      return computeBinCounts(category, req) as ComputeResults[K];
+    case "heatmap":
+      return computeHeatmap(category, req) as ComputeResults[K];
+    case "distribution":
+      return computeDistribution(category, req) as ComputeResults[K];
+    case "gate":
+      return computeGate(category, req) as ComputeResults[K];
+    case "removedCount":
+      return countRemoved(category, req.filter) as ComputeResults[K];
+    case "autoThreshold":
+      return computeAutoThreshold(category, req.field, req.autoThreshold) as ComputeResults[K];
+  }
+  throw new Error(`Unknown compute request: ${(req as ComputeRequest).type}`);
+}
@@ -0,0 +1,51 @@
+import { RawData } from "~/types";
+import { ComputeMessage, ComputeResponse, handleComputeRequest } from "./compute";
+import { withColumn } from "./column-utils";
+
+// The global scope of the worker. Only the dom library is loaded, whose self is a window, and loading the
+// webworker library next to it clashes.
+declare const self: {
+  onmessage: ((event: MessageEvent<ComputeMessage>) => void) | null;
+  postMessage(message: ComputeResponse, options: StructuredSerializeOptions): void;
+};
+
+let data: RawData | undefined;
+const cancelled = new Set<number>();
+
+function transferables(result: unknown): Transferable[] {
+  return ArrayBuffer.isView(result) ? [result.buffer] : [];
+}
+
+self.onmessage = (event: MessageEvent<ComputeMessage>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case "load":
+      data = message.data;
+      cancelled.clear();
+      return;
+    case "column":
+      if (data) data[message.category] = withColumn(data[message.category], message.column);
+      return;
+    case "cancel":
+      cancelled.add(message.id);
+      return;
+    case "compute":
+      // Defer the computation so that cancel messages which arrived in the meantime are handled first
+      setTimeout(() => {
+        if (cancelled.delete(message.id)) return;
+
+        let response: ComputeResponse;
+        try {
+          if (!data) throw new Error("No data has been loaded");
+          const result = handleComputeRequest(data, message.request);
+          response = { id: message.id, result };
+        } catch (err) {
+          console.error("Error in compute worker:", err);
+          response = { id: message.id, error: String(err) };
+        }
+        self.postMessage(response, { transfer: "result" in response ? transferables(response.result) : [] });
+      });
+      return;
+  }
+};
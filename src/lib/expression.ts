@@ -0,0 +1,360 @@
+import { RawDataCategory, RawDataColumn } from "~/types";
+import { getColumn, isMissing } from "./column-utils";
+
+/*
+ * Boolean expressions over the columns of a category, e.g.
+ *
+ *   pct_mito > 20 and not (sample_id in ["a", "b"] or is_doublet)
+ *
+ * Numeric and integer columns compare as numbers, categorical columns as their category names and boolean
+ * columns can be used as conditions. Column names that are not plain identifiers are written in backticks.
+ * Missing values make a comparison unknown (null), `and`, `or` and `not` follow three-valued logic.
+ */
+
+type ValueType = "number" | "string" | "boolean";
+type Value = number | string | boolean | null;
+
+type Token = {
+  kind: "number" | "string" | "identifier" | "column" | "operator" | "end";
+  text: string;
+  value?: number | string;
+  position: number;
+};
+
+type Node =
+  | { kind: "literal"; value: number | string | boolean; position: number }
+  | { kind: "column"; name: string; position: number }
+  | { kind: "not"; operand: Node; position: number }
+  | { kind: "logical"; op: "and" | "or"; left: Node; right: Node; position: number }
+  | { kind: "compare"; op: string; left: Node; right: Node; position: number }
+  | { kind: "in"; operand: Node; values: Node[]; negate: boolean; position: number };
+
+const OPERATORS = ["&&", "||", "==", "!=", "<=", ">=", "<", ">", "!", "(", ")", "[", "]", ",", "-"];
+const COMPARISONS = ["==", "!=", "<", "<=", ">", ">="];
+
+function syntaxError(message: string, position: number): Error {
+  return new Error(`${message} at position ${position + 1}.`);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const number = source.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+    if (number) {
+      i += number[0].length;
+      tokens.push({ kind: "number", text: number[0], value: Number(number[0]), position: start });
+    } else if (char === '"' || char === "'" || char === "`") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) throw syntaxError(`Unterminated ${char === "`" ? "column name" : "string"}`, start);
+      i = end + 1;
+      tokens.push({
+        kind: char === "`" ? "column" : "string",
+        text: source.slice(start, i),
+        value: source.slice(start + 1, end),
+        position: start,
+      });
+    } else if (/[A-Za-z_]/.test(char)) {
+      const identifier = source.slice(i).match(/^[A-Za-z_][\w.]*/)![0];
+      i += identifier.length;
+      tokens.push({ kind: "identifier", text: identifier, value: identifier, position: start });
+    } else {
+      const op = OPERATORS.find(op => source.startsWith(op, i));
+      if (!op) throw syntaxError(`Unexpected character '${char}'`, start);
+      i += op.length;
+      tokens.push({ kind: "operator", text: op, position: start });
+    }
+  }
+  tokens.push({ kind: "end", text: "end of expression", position: source.length });
+  return tokens;
+}
+
+// Recursive descent parser, from the lowest to the highest precedence: or, and, not, comparisons
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    return this.tokens[this.pos++];
+  }
+
+  // whether the next token is one of the given operators or keywords, which are consumed
+  private accept(...texts: string[]): Token | undefined {
+    const token = this.peek();
+    if ((token.kind === "operator" || token.kind === "identifier") && texts.includes(token.text)) {
+      return this.next();
+    }
+    return undefined;
+  }
+
+  private expect(text: string) {
+    if (!this.accept(text)) {
+      const token = this.peek();
+      throw syntaxError(`Expected '${text}' but found '${token.text}'`, token.position);
+    }
+  }
+
+  parse(): Node {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.kind !== "end") throw syntaxError(`Unexpected '${token.text}'`, token.position);
+    return node;
+  }
+
+  private parseOr(): Node {
+    let left = this.parseAnd();
+    let token;
+    while ((token = this.accept("||", "or"))) {
+      left = { kind: "logical", op: "or", left, right: this.parseAnd(), position: token.position };
+    }
+    return left;
+  }
+
+  private parseAnd(): Node {
+    let left = this.parseNot();
+    let token;
+    while ((token = this.accept("&&", "and"))) {
+      left = { kind: "logical", op: "and", left, right: this.parseNot(), position: token.position };
+    }
+    return left;
+  }
+
+  private parseNot(): Node {
+    const token = this.accept("!", "not");
+    if (token) return { kind: "not", operand: this.parseNot(), position: token.position };
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Node {
+    const left = this.parsePrimary();
+    const op = this.accept(...COMPARISONS);
+    if (op) {
+      return { kind: "compare", op: op.text, left, right: this.parsePrimary(), position: op.position };
+    }
+    // `not in` only follows an operand, a leading `not` is a negation
+    const negate = this.peek().text === "not" && this.tokens[this.pos + 1]?.text === "in";
+    if (negate) this.next();
+    const inToken = this.accept("in");
+    if (inToken) {
+      this.expect("[");
+      const values = [this.parsePrimary()];
+      while (this.accept(",")) {
+        values.push(this.parsePrimary());
+      }
+      this.expect("]");
+      return { kind: "in", operand: left, values, negate, position: inToken.position };
+    }
+    return left;
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+    switch (token.kind) {
+      case "number":
+      case "string":
+        return { kind: "literal", value: token.value!, position: token.position };
+      case "column":
+        return { kind: "column", name: token.value as string, position: token.position };
+      case "identifier":
+        if (token.text === "true" || token.text === "false") {
+          return { kind: "literal", value: token.text === "true", position: token.position };
+        }
+        if (["and", "or", "not", "in"].includes(token.text)) break;
+        return { kind: "column", name: token.text, position: token.position };
+      case "operator":
+        if (token.text === "(") {
+          const node = this.parseOr();
+          this.expect(")");
+          return node;
+        }
+        if (token.text === "-" && this.peek().kind === "number") {
+          const number = this.next();
+          return { kind: "literal", value: -(number.value as number), position: token.position };
+        }
+        break;
+    }
+    throw syntaxError(`Unexpected '${token.text}'`, token.position);
+  }
+}
+
+function parse(source: string): Node {
+  if (source.trim() === "") throw new Error("The expression is empty.");
+  return new Parser(tokenize(source)).parse();
+}
+
+// Names of the columns referenced by an expression, in the order they first appear
+export function expressionColumns(source: string): string[] {
+  const names: string[] = [];
+  const visit = (node: Node) => {
+    switch (node.kind) {
+      case "column":
+        if (!names.includes(node.name)) names.push(node.name);
+        break;
+      case "not":
+        visit(node.operand);
+        break;
+      case "logical":
+      case "compare":
+        visit(node.left);
+        visit(node.right);
+        break;
+      case "in":
+        visit(node.operand);
+        node.values.forEach(visit);
+        break;
+    }
+  };
+  visit(parse(source));
+  return names;
+}
+
+type Compiled = {
+  type: ValueType;
+  evaluate: (row: number) => Value;
+};
+
+function columnType(column: RawDataColumn): ValueType {
+  if (column.dtype === "categorical") return "string";
+  if (column.dtype === "boolean") return "boolean";
+  return "number";
+}
+
+// Values of a column by row of the column data, categorical columns give the name of their category
+function columnGetter(column: RawDataColumn): (row: number) => Value {
+  const data = column.data;
+  const categories = column.categories;
+  if (column.dtype === "categorical" && categories) {
+    return (row) => categories[data[row]] ?? null;
+  }
+  if (column.dtype === "boolean") {
+    return (row) => isMissing(data[row]) ? null : Boolean(data[row]);
+  }
+  return (row) => isMissing(data[row]) ? null : data[row];
+}
+
+const compareFunctions: Record<string, (a: any, b: any) => boolean> = {
+  "==": (a, b) => a === b,
+  "!=": (a, b) => a !== b,
+  "<": (a, b) => a < b,
+  "<=": (a, b) => a <= b,
+  ">": (a, b) => a > b,
+  ">=": (a, b) => a >= b,
+};
+
+function compileNode(node: Node, category: RawDataCategory): Compiled {
+  const expectBoolean = (operand: Compiled, what: string) => {
+    if (operand.type !== "boolean") {
+      throw syntaxError(`The operand of '${what}' is a ${operand.type}, not a condition`, node.position);
+    }
+  };
+
+  switch (node.kind) {
+    case "literal": {
+      const value = node.value;
+      return { type: typeof value as ValueType, evaluate: () => value };
+    }
+    case "column": {
+      const column = getColumn(category, node.name);
+      if (!column) throw syntaxError(`Unknown column '${node.name}'`, node.position);
+      return { type: columnType(column), evaluate: columnGetter(column) };
+    }
+    case "not": {
+      const operand = compileNode(node.operand, category);
+      expectBoolean(operand, "not");
+      return {
+        type: "boolean",
+        evaluate: (row) => {
+          const value = operand.evaluate(row);
+          return value === null ? null : !value;
+        },
+      };
+    }
+    case "logical": {
+      const left = compileNode(node.left, category);
+      const right = compileNode(node.right, category);
+      expectBoolean(left, node.op);
+      expectBoolean(right, node.op);
+      // false decides `and` and true decides `or`, even when the other side is unknown
+      const decisive = node.op === "or";
+      return {
+        type: "boolean",
+        evaluate: (row) => {
+          const a = left.evaluate(row);
+          if (a === decisive) return decisive;
+          const b = right.evaluate(row);
+          if (b === decisive) return decisive;
+          return a === null || b === null ? null : !decisive;
+        },
+      };
+    }
+    case "compare": {
+      const left = compileNode(node.left, category);
+      const right = compileNode(node.right, category);
+      const ordered = !["==", "!="].includes(node.op);
+      if (left.type !== right.type || (ordered && left.type !== "number")) {
+        throw syntaxError(`Can not compare a ${left.type} with a ${right.type} using '${node.op}'`, node.position);
+      }
+      const compare = compareFunctions[node.op];
+      return {
+        type: "boolean",
+        evaluate: (row) => {
+          const a = left.evaluate(row);
+          const b = right.evaluate(row);
+          return a === null || b === null ? null : compare(a, b);
+        },
+      };
+    }
+    case "in": {
+      const operand = compileNode(node.operand, category);
+      const values = node.values.map(value => {
+        if (value.kind !== "literal") throw syntaxError("Only values can be listed after 'in'", value.position);
+        if (typeof value.value !== operand.type) {
+          throw syntaxError(`Can not look up a ${operand.type} in a list with a ${typeof value.value}`, value.position);
+        }
+        return value.value;
+      });
+      const set = new Set<Value>(values);
+      return {
+        type: "boolean",
+        evaluate: (row) => {
+          const value = operand.evaluate(row);
+          return value === null ? null : set.has(value) !== node.negate;
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Compile an expression for the columns of a category. The compiled function takes a row of the column data
+ * and returns whether the expression holds, or null when that is unknown because of missing values.
+ * Throws an error describing the problem when the expression is invalid.
+ */
+export function compileExpression(source: string, category: RawDataCategory): (row: number) => boolean | null {
+  const compiled = compileNode(parse(source), category);
+  if (compiled.type !== "boolean") {
+    throw new Error(`The expression gives a ${compiled.type}, not a condition.`);
+  }
+  return compiled.evaluate as (row: number) => boolean | null;
+}
+
+// Error message for an invalid expression, undefined when the expression is valid
+export function validateExpression(source: string, category: RawDataCategory): string | undefined {
+  try {
+    compileExpression(source, category);
+    return undefined;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
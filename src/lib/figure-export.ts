@@ -0,0 +1,49 @@
+import Plotly, { PlotlyHTMLElement } from "plotly.js-dist-min";
+import { RawData } from "~/types";
+import { FileType } from "./save-file";
+
+export type FigureFormat = "png" | "svg";
+
+export type FigureOptions = {
+  format: FigureFormat;
+  // size of the figure in CSS pixels
+  width: number;
+  height: number;
+  // pixels per CSS pixel of PNG images, SVG images are not scaled
+  scale: number;
+};
+
+export const figureFileTypes: Record<FigureFormat, FileType> = {
+  png: { description: "PNG images", accept: { "image/png": [".png"] } },
+  svg: { description: "SVG images", accept: { "image/svg+xml": [".svg"] } },
+};
+
+// Name of the file of a figure without extension, e.g. cell_rna_stats_total_counts
+export function figureName(...parts: (keyof RawData | undefined)[]): string {
+  return parts
+    .filter(part => part !== undefined && part !== "")
+    .join("_")
+    .replace(/[^\w.-]+/g, "_");
+}
+
+// Plotly gives PNG images base64 encoded and SVG images URI encoded
+function dataUrlBytes(url: string): Uint8Array {
+  const comma = url.indexOf(",");
+  const header = url.slice(0, comma);
+  const payload = url.slice(comma + 1);
+  if (header.endsWith(";base64")) {
+    return Uint8Array.from(atob(payload), char => char.charCodeAt(0));
+  }
+  return new TextEncoder().encode(decodeURIComponent(payload));
+}
+
+// Render a plot to an image of the given size, the plot on the page is left as it is
+export async function renderFigure(element: PlotlyHTMLElement, options: FigureOptions): Promise<Uint8Array> {
+  const url = await Plotly.toImage(element, {
+    format: options.format,
+    width: options.width,
+    height: options.height,
+    scale: options.format === "png" ? options.scale : 1,
+  });
+  return dataUrlBytes(url);
+}
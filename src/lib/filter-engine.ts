@@ -0,0 +1,425 @@
+import {
+  CategorySelection,
+  FilterSettings,
+  RawData,
+  RawDataCategory,
+  RawDataColumn,
+  SampleCutoffs,
+  Settings,
+} from "~/types";
+import { categoryIndex, columnCategories, getColumn, isMissing, rowAt } from "./column-utils";
+import { compileExpression } from "./expression";
+
+// One bit per row of a category, in the order of the category's rows. A bit is set when the row passes.
+export type FilterMask = Uint32Array;
+
+export type FilterResult = {
+  // mask of each filter, undefined when the filter does not remove any rows (e.g. no cutoffs are set)
+  masks: (FilterMask | undefined)[];
+  // rows passing all filters
+  combined: FilterMask;
+  numRows: number;
+  numPassing: number;
+};
+
+export function createMask(numRows: number): FilterMask {
+  const mask = new Uint32Array(Math.ceil(numRows / 32)).fill(0xffffffff);
+  // clear the bits beyond the last row, so masks can be counted word by word
+  const rest = numRows % 32;
+  if (rest > 0) {
+    mask[mask.length - 1] = 2 ** rest - 1;
+  }
+  return mask;
+}
+
+export function passes(mask: FilterMask, i: number): boolean {
+  return (mask[i >>> 5] & (1 << (i & 31))) !== 0;
+}
+
+function fail(mask: FilterMask, i: number) {
+  mask[i >>> 5] &= ~(1 << (i & 31));
+}
+
+export function countPassing(mask: FilterMask): number {
+  let count = 0;
+  for (let i = 0; i < mask.length; i++) {
+    // population count of a 32-bit word
+    let word = mask[i];
+    word = word - ((word >>> 1) & 0x55555555);
+    word = (word & 0x33333333) + ((word >>> 2) & 0x33333333);
+    count += (((word + (word >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+  }
+  return count;
+}
+
+// Rows of the column data for which the mask is set
+export function maskRows(category: RawDataCategory, mask: FilterMask): Int32Array {
+  const rows = new Int32Array(countPassing(mask));
+  let numPassing = 0;
+  for (let i = 0; i < category.num_rows; i++) {
+    if (passes(mask, i)) rows[numPassing++] = rowAt(category, i);
+  }
+  return rows;
+}
+
+function intersect(target: FilterMask, mask: FilterMask | undefined) {
+  if (!mask) return;
+  for (let i = 0; i < target.length; i++) {
+    target[i] &= mask[i];
+  }
+}
+
+// Cutoffs that apply to the cells of a sample, the sample's overrides take precedence over the global cutoffs
+export function sampleCutoffs(filter: FilterSettings, sample: string | undefined): SampleCutoffs {
+  const override = sample !== undefined ? filter.sampleCutoffs?.[sample] : undefined;
+  return {
+    cutoffMin: override?.cutoffMin ?? filter.cutoffMin,
+    cutoffMax: override?.cutoffMax ?? filter.cutoffMax,
+  };
+}
+
+// Rows with a value outside of the cutoffs of the row fail, missing values pass
+function rangeMask(
+  category: RawDataCategory,
+  field: string | undefined,
+  cutoffsAt: (row: number) => SampleCutoffs
+): FilterMask | undefined {
+  const column = getColumn(category, field);
+  if (!column) return undefined;
+
+  const values = column.data;
+  const mask = createMask(category.num_rows);
+  for (let i = 0; i < category.num_rows; i++) {
+    const row = rowAt(category, i);
+    const { cutoffMin, cutoffMax } = cutoffsAt(row);
+    const value = values[row];
+    if ((cutoffMin !== undefined && value < cutoffMin) ||
+        (cutoffMax !== undefined && value > cutoffMax)) {
+      fail(mask, i);
+    }
+  }
+  return mask;
+}
+
+const hasCutoffs = (cutoffs: SampleCutoffs) => cutoffs.cutoffMin !== undefined || cutoffs.cutoffMax !== undefined;
+
+// Mask for cutoffMin and cutoffMax of a filter, taking the per-sample overrides into account
+function cutoffMask(category: RawDataCategory, filter: FilterSettings): FilterMask | undefined {
+  const globalCutoffs = sampleCutoffs(filter, undefined);
+  const sampleColumn = getColumn(category, "sample_id");
+
+  if (!filter.sampleCutoffs || !sampleColumn?.categories) {
+    if (!hasCutoffs(globalCutoffs)) return undefined;
+    return rangeMask(category, filter.field, () => globalCutoffs);
+  }
+
+  // look up the cutoffs by the category code of the sample
+  const cutoffsByCode = sampleColumn.categories.map(sample => sampleCutoffs(filter, sample));
+  if (!cutoffsByCode.some(hasCutoffs)) return undefined;
+
+  const sampleCodes = sampleColumn.data;
+  return rangeMask(category, filter.field, row => cutoffsByCode[sampleCodes[row]] ?? globalCutoffs);
+}
+
+// Ray casting test, a point on the edge may end up on either side
+export function insidePolygon(vertices: [number, number][], x: number, y: number): boolean {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const [xi, yi] = vertices[i];
+    const [xj, yj] = vertices[j];
+    if ((yi > y) !== (yj > y) && x < xi + (y - yi) * (xj - xi) / (yj - yi)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Rows on the wrong side of the polygon fail, rows with a missing value pass
+function polygonMask(category: RawDataCategory, filter: FilterSettings): FilterMask | undefined {
+  const xColumn = getColumn(category, filter.field);
+  const yColumn = getColumn(category, filter.yField);
+  const gate = filter.polygon;
+  if (!xColumn || !yColumn || !gate || gate.vertices.length < 3) return undefined;
+
+  // most cells of a small gate can be placed by its bounding box
+  const xs = gate.vertices.map(vertex => vertex[0]);
+  const ys = gate.vertices.map(vertex => vertex[1]);
+  const [xMin, xMax, yMin, yMax] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const keepInside = gate.keep === "inside";
+
+  const mask = createMask(category.num_rows);
+  for (let i = 0; i < category.num_rows; i++) {
+    const row = rowAt(category, i);
+    const x = xColumn.data[row];
+    const y = yColumn.data[row];
+    if (isMissing(x) || isMissing(y)) continue;
+
+    const inside = x >= xMin && x <= xMax && y >= yMin && y <= yMax && insidePolygon(gate.vertices, x, y);
+    if (inside !== keepInside) fail(mask, i);
+  }
+  return mask;
+}
+
+// Whether each of the categories passes a category filter, the selected categories pass when they are
+// included and fail when they are excluded
+export function passingCategories(categories: string[], selection: CategorySelection | undefined): boolean[] {
+  const include = selection?.mode === "include";
+  return categories.map(name => (selection?.selected.includes(name) ?? false) === include);
+}
+
+// Rows of the categories that do not pass fail, rows with a missing value pass
+function categoryMask(category: RawDataCategory, filter: FilterSettings): FilterMask | undefined {
+  const column = getColumn(category, filter.field);
+  const categories = column && columnCategories(column);
+  const selection = filter.categorySelection;
+  if (!categories || !selection) return undefined;
+  if (selection.mode === "exclude" && selection.selected.length === 0) return undefined;
+
+  const passing = passingCategories(categories, selection);
+  const mask = createMask(category.num_rows);
+  for (let i = 0; i < category.num_rows; i++) {
+    const index = categoryIndex(column, rowAt(category, i));
+    if (index !== -1 && !passing[index]) fail(mask, i);
+  }
+  return mask;
+}
+
+// Rows for which the condition holds fail, or pass when they are kept. Rows for which the condition is unknown
+// because of missing values pass, as do all rows when the condition is invalid.
+function expressionMask(category: RawDataCategory, filter: FilterSettings): FilterMask | undefined {
+  if (!filter.expression) return undefined;
+  let condition: (row: number) => boolean | null;
+  try {
+    condition = compileExpression(filter.expression.condition, category);
+  } catch {
+    return undefined;
+  }
+
+  const failing = filter.expression.action === "remove";
+  const mask = createMask(category.num_rows);
+  for (let i = 0; i < category.num_rows; i++) {
+    if (condition(rowAt(category, i)) === failing) fail(mask, i);
+  }
+  return mask;
+}
+
+type MaskFunction = (category: RawDataCategory, filter: FilterSettings) => FilterMask | undefined;
+
+// Every filter type defines which rows it lets through
+const maskFunctions: Record<FilterSettings["type"], MaskFunction> = {
+  histogram: cutoffMask,
+  bar: cutoffMask,
+  scatter: (category, filter) => {
+    const xMask = cutoffMask(category, filter);
+    const yCutoffs = { cutoffMin: filter.cutoffMinY, cutoffMax: filter.cutoffMaxY };
+    const yMask = hasCutoffs(yCutoffs) ? rangeMask(category, filter.yField, () => yCutoffs) : undefined;
+    if (!xMask) return yMask;
+    intersect(xMask, yMask);
+    return xMask;
+  },
+  polygon: polygonMask,
+  expression: expressionMask,
+  category: categoryMask,
+};
+
+export function filterMask(category: RawDataCategory, filter: FilterSettings): FilterMask | undefined {
+  return maskFunctions[filter.type]?.(category, filter);
+}
+
+export function evaluateFilters(category: RawDataCategory, filters: FilterSettings[]): FilterResult {
+  const masks = filters.map(filter => filterMask(category, filter));
+
+  const combined = createMask(category.num_rows);
+  for (const mask of masks) {
+    intersect(combined, mask);
+  }
+
+  return {
+    masks,
+    combined,
+    numRows: category.num_rows,
+    numPassing: countPassing(combined),
+  };
+}
+
+export type FunnelResult = {
+  // positions of the filters that remove cells, filters without cutoffs are left out
+  filters: number[];
+  numRows: number;
+  // rows removed by each of these filters, out of the rows passing the filters before it
+  removed: number[];
+  samples: { sample: string; numRows: number; removed: number[] }[];
+};
+
+/**
+ * Rows removed by each filter when the filters are applied one after another, in total and per sample.
+ * A row is counted for the first filter it fails, so the removed rows add up to the rows failing any filter.
+ */
+export function filterFunnel(category: RawDataCategory, filters: FilterSettings[]): FunnelResult {
+  const { masks } = evaluateFilters(category, filters);
+  const active = masks.flatMap((mask, i) => mask ? [i] : []);
+  const activeMasks = active.map(i => masks[i]!);
+
+  const sampleColumn = getColumn(category, "sample_id");
+  const numSamples = sampleColumn?.categories?.length ?? 0;
+  const sampleRows = new Array<number>(numSamples).fill(0);
+  const sampleRemoved = Array.from({ length: numSamples }, () => new Array<number>(active.length).fill(0));
+  const removed = new Array<number>(active.length).fill(0);
+
+  for (let i = 0; i < category.num_rows; i++) {
+    const sample = sampleColumn ? sampleColumn.data[rowAt(category, i)] as number : undefined;
+    if (sample !== undefined) sampleRows[sample]++;
+
+    const step = activeMasks.findIndex(mask => !passes(mask, i));
+    if (step === -1) continue;
+    removed[step]++;
+    if (sample !== undefined) sampleRemoved[sample][step]++;
+  }
+
+  return {
+    filters: active,
+    numRows: category.num_rows,
+    removed,
+    // samples that are not part of the rows, e.g. deselected samples, are left out
+    samples: sampleRows.flatMap((numRows, sample) => numRows > 0
+      ? [{ sample: sampleColumn!.categories![sample], numRows, removed: sampleRemoved[sample] }]
+      : []
+    ),
+  };
+}
+
+export type OverlapResult = {
+  // positions of the filters that remove cells, filters without cutoffs are left out
+  filters: number[];
+  numRows: number;
+  // rows failing each of these filters
+  setSizes: number[];
+  // rows failing exactly the given filters, by their index in `filters`, the largest intersection first
+  intersections: { failed: number[]; count: number }[];
+};
+
+/**
+ * Overlap of the rows failing each filter, as shown by an UpSet plot. Rows passing all filters
+ * are not part of any intersection.
+ */
+export function filterOverlap(category: RawDataCategory, filters: FilterSettings[]): OverlapResult {
+  const { masks } = evaluateFilters(category, filters);
+  const active = masks.flatMap((mask, i) => mask ? [i] : []);
+  const activeMasks = active.map(i => masks[i]!);
+
+  const setSizes = new Array<number>(active.length).fill(0);
+  // rows are counted by the filters they fail, joined into a key such as "0,2"
+  const counts = new Map<string, number>();
+  for (let i = 0; i < category.num_rows; i++) {
+    const failed: number[] = [];
+    activeMasks.forEach((mask, j) => {
+      if (!passes(mask, i)) failed.push(j);
+    });
+    if (failed.length === 0) continue;
+
+    failed.forEach(j => setSizes[j]++);
+    const key = failed.join(",");
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const intersections = Array.from(counts, ([key, count]) => ({ failed: key.split(",").map(Number), count }));
+  intersections.sort((a, b) => b.count - a.count);
+
+  return { filters: active, numRows: category.num_rows, setSizes, intersections };
+}
+
+// Derived column with the reason each cell was removed by the applied filters
+export const QC_STATUS_COLUMN = "qc_status";
+
+// Whether a row of the column data passed the filters, by its QC status. Undefined without a QC status column.
+export function qcPassTest(category: RawDataCategory): ((row: number) => boolean) | undefined {
+  const status = getColumn(category, QC_STATUS_COLUMN);
+  if (!status) return undefined;
+  const passCode = status.categories?.indexOf("pass") ?? 0;
+  return (row) => status.data[row] === passCode;
+}
+
+// Short name of a filter, used to tell why a row failed
+export function failReason(filter: FilterSettings): string {
+  if (filter.type === "polygon") return filter.polygon?.name ?? filter.field;
+  if (filter.type === "expression") return filter.expression?.name ?? filter.field;
+  if (filter.type === "scatter") return `${filter.field}/${filter.yField}`;
+  return filter.field;
+}
+
+/**
+ * Categorical column with the QC status of each row: "pass", "fail:<field>" for rows failing a single
+ * filter or "multiple" for rows failing several filters. Rows of excluded samples get "excluded sample",
+ * whether they pass the filters or not. The column covers all rows of the column data, rows that are not
+ * part of the category pass.
+ */
+export function qcStatusColumn(
+  category: RawDataCategory,
+  filters: FilterSettings[],
+  excludedSamples: string[] = [],
+): RawDataColumn {
+  const { masks } = evaluateFilters(category, filters);
+
+  const categories = ["pass"];
+  const codes = masks.map((mask, j) => {
+    if (!mask) return -1;
+    const name = `fail:${failReason(filters[j])}`;
+    // filters on the same field share their status
+    const code = categories.indexOf(name);
+    return code !== -1 ? code : categories.push(name) - 1;
+  });
+  const multiple = categories.push("multiple") - 1;
+
+  const sampleColumn = getColumn(category, "sample_id");
+  const excludedCodes = new Set(
+    (sampleColumn?.categories ?? []).flatMap((sample, code) => excludedSamples.includes(sample) ? [code] : [])
+  );
+  const excluded = excludedCodes.size > 0 ? categories.push("excluded sample") - 1 : -1;
+
+  const data = new Int32Array(category.columns[0]?.data.length ?? category.num_rows);
+  for (let i = 0; i < category.num_rows; i++) {
+    let status = 0;
+    masks.forEach((mask, j) => {
+      if (mask && !passes(mask, i)) {
+        status = status === 0 || status === codes[j] ? codes[j] : multiple;
+      }
+    });
+    const row = rowAt(category, i);
+    data[row] = sampleColumn && excludedCodes.has(sampleColumn.data[row]) ? excluded : status;
+  }
+
+  return { name: QC_STATUS_COLUMN, dtype: "categorical", data, categories };
+}
+
+export type SampleExclusion = {
+  sample: string;
+  // the sample-level filters the sample fails
+  reasons: string[];
+};
+
+/**
+ * Samples failing the filters of the sample-level categories, e.g. a cutoff on the sequencing saturation.
+ * These samples are left out of every category, including their cells.
+ */
+export function sampleExclusions(data: RawData, settings: Settings): SampleExclusion[] {
+  const reasons = new Map<string, string[]>();
+  for (const key in settings) {
+    const category = data[key];
+    const sampleColumn = category && getColumn(category, "sample_id");
+    if (key === "cell_rna_stats" || !sampleColumn?.categories) continue;
+
+    const { masks } = evaluateFilters(category, settings[key]);
+    masks.forEach((mask, j) => {
+      if (!mask) return;
+      const reason = failReason(settings[key][j]);
+      for (let i = 0; i < category.num_rows; i++) {
+        if (passes(mask, i)) continue;
+        const sample = sampleColumn.categories![sampleColumn.data[rowAt(category, i)]];
+        const sampleReasons = reasons.get(sample) ?? [];
+        if (!sampleReasons.includes(reason)) sampleReasons.push(reason);
+        reasons.set(sample, sampleReasons);
+      }
+    });
+  }
+  return Array.from(reasons, ([sample, sampleReasons]) => ({ sample, reasons: sampleReasons }));
+}
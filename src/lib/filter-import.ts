@@ -0,0 +1,524 @@
+import { FilterSettings, RawData, SampleCutoffs, Settings } from "~/types";
+import { expressionColumns, validateExpression } from "./expression";
+import { ValidationIssue } from "./validate-data";
+
+// Thresholds of a single field read from an imported file
+type ImportedThreshold = {
+  field: string;
+  // only set when the file assigns the threshold to a category, e.g. in the JSON form
+  category?: string;
+  cutoffMin?: number;
+  cutoffMax?: number;
+  sampleCutoffs?: Record<string, SampleCutoffs>;
+  autoThreshold?: FilterSettings["autoThreshold"];
+  // only set in the JSON form, where a scatter plot can share its field with a histogram
+  type?: FilterSettings["type"];
+  cutoffMinY?: number;
+  cutoffMaxY?: number;
+  // where the threshold was defined, used in the reported issues
+  path: string;
+};
+
+// Polygon gate, expression filter or category filter read from an imported file, these are imported as a whole
+type ImportedGate = {
+  // only set in the JSON form, other gates are added to the cell-level filters
+  category?: string;
+  filter: FilterSettings;
+  path: string;
+};
+
+type ImportedFilters = {
+  thresholds: ImportedThreshold[];
+  gates: ImportedGate[];
+  expressions: ImportedGate[];
+  categoryFilters: ImportedGate[];
+};
+
+export type FilterImportResult = {
+  settings: Settings;
+  // number of filters that were updated
+  numUpdated: number;
+  issues: ValidationIssue[];
+};
+
+const thresholdKey = /^(min|max)_(.+)$/;
+
+function parseNumber(value: unknown, path: string, issues: ValidationIssue[]): number | undefined {
+  if (value === null || value === undefined || value === "" || value === "~" || value === "null") {
+    return undefined;
+  }
+  const number = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(number)) {
+    issues.push({ severity: "error", path, message: `Expected a number, got ${JSON.stringify(value)}.` });
+    return undefined;
+  }
+  return number;
+}
+
+// Add a `min_<field>` or `max_<field>` value to the thresholds, returns false for other keys
+function addThresholdKey(
+  thresholds: Map<string, ImportedThreshold>,
+  key: string,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  sample?: string
+): boolean {
+  const match = key.match(thresholdKey);
+  if (!match) return false;
+
+  const [, bound, field] = match;
+  const threshold = thresholds.get(field) ?? { field, path };
+  thresholds.set(field, threshold);
+
+  const number = parseNumber(value, path, issues);
+  const cutoff = bound === "min" ? "cutoffMin" : "cutoffMax";
+  if (sample === undefined) {
+    threshold[cutoff] = number;
+  } else if (number !== undefined) {
+    threshold.sampleCutoffs ??= {};
+    threshold.sampleCutoffs[sample] = { ...threshold.sampleCutoffs[sample], [cutoff]: number };
+  }
+  return true;
+}
+
+function unquote(value: string): string {
+  if (/^".*"$/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  return /^'.*'$/.test(value) ? value.slice(1, -1).replace(/''/g, "'") : value;
+}
+
+// Remove a trailing comment, a '#' in a quoted sample name is not a comment
+function stripComment(line: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === "\\" && quote === '"') i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+// Check a gate of the `polygon_gates` block, returns undefined when it can not be used
+function parseGate(name: string, values: Record<string, string>, path: string, issues: ValidationIssue[]): ImportedGate | undefined {
+  const unknownKeys = Object.keys(values).filter(key => !["x", "y", "keep", "vertices"].includes(key));
+  unknownKeys.forEach(key =>
+    issues.push({ severity: "warning", path, message: `Unknown key "${key}" of gate "${name}" is ignored.` })
+  );
+
+  if (!values.x || !values.y) {
+    issues.push({ severity: "error", path, message: `Gate "${name}" needs both an 'x' and a 'y' field.` });
+    return undefined;
+  }
+  const keep = values.keep ?? "inside";
+  if (keep !== "inside" && keep !== "outside") {
+    issues.push({ severity: "error", path, message: `'keep' of gate "${name}" must be inside or outside, got "${keep}".` });
+    return undefined;
+  }
+  let vertices: unknown;
+  try {
+    vertices = JSON.parse(values.vertices ?? "");
+  } catch {
+    vertices = undefined;
+  }
+  const isVertex = (vertex: unknown) =>
+    Array.isArray(vertex) && vertex.length === 2 && vertex.every(value => typeof value === "number");
+  if (!Array.isArray(vertices) || vertices.length < 3 || !vertices.every(isVertex)) {
+    issues.push({ severity: "error", path, message: `'vertices' of gate "${name}" must be a list of at least 3 [x, y] pairs.` });
+    return undefined;
+  }
+
+  return {
+    filter: {
+      type: "polygon",
+      field: values.x,
+      yField: values.y,
+      label: values.x.replace(/_/g, " "),
+      yLabel: values.y.replace(/_/g, " "),
+      polygon: { name, vertices: vertices as [number, number][], keep },
+    },
+    path,
+  };
+}
+
+// Check a filter of the `expression_filters` block, returns undefined when it can not be used
+function parseExpression(name: string, values: Record<string, string>, path: string, issues: ValidationIssue[]): ImportedGate | undefined {
+  const unknownKeys = Object.keys(values).filter(key => !["condition", "action"].includes(key));
+  unknownKeys.forEach(key =>
+    issues.push({ severity: "warning", path, message: `Unknown key "${key}" of expression filter "${name}" is ignored.` })
+  );
+
+  const condition = values.condition ?? "";
+  let columns: string[];
+  try {
+    columns = expressionColumns(condition);
+  } catch (err) {
+    issues.push({ severity: "error", path, message: `'condition' of expression filter "${name}" is invalid: ${(err as Error).message}` });
+    return undefined;
+  }
+  const action = values.action ?? "remove";
+  if (action !== "remove" && action !== "keep") {
+    issues.push({ severity: "error", path, message: `'action' of expression filter "${name}" must be remove or keep, got "${action}".` });
+    return undefined;
+  }
+
+  return {
+    filter: {
+      type: "expression",
+      field: columns[0] ?? "",
+      label: name,
+      expression: { name, condition, action },
+    },
+    path,
+  };
+}
+
+// Check a filter of the `category_filters` block, returns undefined when it can not be used
+function parseCategoryFilter(field: string, values: Record<string, string>, path: string, issues: ValidationIssue[]): ImportedGate | undefined {
+  const modes = Object.keys(values);
+  if (modes.length !== 1 || (modes[0] !== "include" && modes[0] !== "exclude")) {
+    issues.push({ severity: "error", path, message: `Category filter "${field}" needs either an 'include' or an 'exclude' list.` });
+    return undefined;
+  }
+  const mode = modes[0];
+  let selected: unknown;
+  try {
+    selected = JSON.parse(values[mode]);
+  } catch {
+    selected = undefined;
+  }
+  if (!Array.isArray(selected) || !selected.every(name => typeof name === "string")) {
+    issues.push({ severity: "error", path, message: `'${mode}' of category filter "${field}" must be a list of category names.` });
+    return undefined;
+  }
+
+  return {
+    filter: {
+      type: "category",
+      field,
+      label: field.replace(/_/g, " "),
+      categorySelection: { mode, selected },
+    },
+    path,
+  };
+}
+
+// Top level keys of the YAML export with a nested block
+const YAML_BLOCKS = ["sample_overrides", "polygon_gates", "expression_filters", "category_filters", "excluded_samples"] as const;
+
+/**
+ * Read the YAML written by "Export Filters as YAML": top level `min_<field>` and `max_<field>` keys,
+ * an optional `sample_overrides` block with the same keys per sample, an optional `polygon_gates`
+ * block with the fields, vertices and kept side of each gate, an optional `category_filters` block with the
+ * included or excluded categories by field and an optional `expression_filters` block with the condition and
+ * action of each expression filter. The `excluded_samples` block follows from the thresholds and is skipped.
+ * Only this subset of YAML is supported.
+ */
+function parseYaml(text: string, issues: ValidationIssue[]): ImportedFilters {
+  const thresholds = new Map<string, ImportedThreshold>();
+  const gates: { name: string; values: Record<string, string>; path: string }[] = [];
+  const expressions: { name: string; values: Record<string, string>; path: string }[] = [];
+  const categoryFilters: { name: string; values: Record<string, string>; path: string }[] = [];
+  let block: typeof YAML_BLOCKS[number] | undefined;
+  let sample: string | undefined;
+
+  text.split(/\r?\n/).forEach((rawLine, i) => {
+    const path = `line ${i + 1}`;
+    const line = stripComment(rawLine).trimEnd();
+    if (line.trim() === "") return;
+
+    const indent = line.length - line.trimStart().length;
+    const match = line.trim().match(/^("(?:[^"\\]|\\.)*"|'[^']*'|[^:]+):\s*(.*)$/);
+    if (!match) {
+      issues.push({ severity: "error", path, message: `Could not parse "${line.trim()}".` });
+      return;
+    }
+    const key = unquote(match[1].trim());
+    const value = unquote(match[2].trim());
+
+    if (indent === 0) {
+      sample = undefined;
+      block = value === "" ? YAML_BLOCKS.find(name => name === key) : undefined;
+      if (block || addThresholdKey(thresholds, key, value, path, issues)) return;
+      issues.push({ severity: "warning", path, message: `Unknown key "${key}" is ignored.` });
+    } else if (block === "excluded_samples") {
+      // the excluded samples follow from the sample-level thresholds, so there is nothing to import
+    } else if (block === "sample_overrides" && value === "") {
+      sample = key;
+    } else if (block === "sample_overrides" && sample !== undefined) {
+      if (addThresholdKey(thresholds, key, value, path, issues, sample)) return;
+      issues.push({ severity: "warning", path, message: `Unknown key "${key}" for sample "${sample}" is ignored.` });
+    } else if (block === "polygon_gates" && value === "") {
+      gates.push({ name: key, values: {}, path });
+    } else if (block === "polygon_gates" && gates.length > 0) {
+      gates[gates.length - 1].values[key] = value;
+    } else if (block === "expression_filters" && value === "") {
+      expressions.push({ name: key, values: {}, path });
+    } else if (block === "expression_filters" && expressions.length > 0) {
+      expressions[expressions.length - 1].values[key] = value;
+    } else if (block === "category_filters" && value === "") {
+      categoryFilters.push({ name: key, values: {}, path });
+    } else if (block === "category_filters" && categoryFilters.length > 0) {
+      categoryFilters[categoryFilters.length - 1].values[key] = value;
+    } else {
+      issues.push({ severity: "warning", path, message: `Unexpected indentation, "${key}" is ignored.` });
+    }
+  });
+
+  return {
+    thresholds: Array.from(thresholds.values()),
+    gates: gates.flatMap(gate => parseGate(gate.name, gate.values, gate.path, issues) ?? []),
+    expressions: expressions.flatMap(expression =>
+      parseExpression(expression.name, expression.values, expression.path, issues) ?? []
+    ),
+    categoryFilters: categoryFilters.flatMap(filter =>
+      parseCategoryFilter(filter.name, filter.values, filter.path, issues) ?? []
+    ),
+  };
+}
+
+/**
+ * Read the JSON form, which is either the settings of the report (filters per category, optionally
+ * wrapped in a `settings` object) or an object with the same keys as the YAML export.
+ */
+function parseJson(text: string, issues: ValidationIssue[]): ImportedFilters {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    issues.push({ severity: "error", path: "file", message: `Invalid JSON: ${err}` });
+    return { thresholds: [], gates: [], expressions: [], categoryFilters: [] };
+  }
+  const settings = json?.settings ?? json;
+  if (typeof settings !== "object" || settings === null || Array.isArray(settings)) {
+    issues.push({ severity: "error", path: "file", message: "Expected an object of filter settings." });
+    return { thresholds: [], gates: [], expressions: [], categoryFilters: [] };
+  }
+
+  const thresholds: ImportedThreshold[] = [];
+  const gates: ImportedGate[] = [];
+  const expressions: ImportedGate[] = [];
+  const categoryFilters: ImportedGate[] = [];
+  const flatThresholds = new Map<string, ImportedThreshold>();
+
+  for (const [key, value] of Object.entries(settings)) {
+    if (!Array.isArray(value)) {
+      if (addThresholdKey(flatThresholds, key, value, key, issues)) continue;
+      issues.push({ severity: "warning", path: key, message: `Unknown key "${key}" is ignored.` });
+      continue;
+    }
+
+    value.forEach((filter: any, i: number) => {
+      const path = `${key}[${i}]`;
+      if (typeof filter?.field !== "string") {
+        issues.push({ severity: "error", path, message: "Filter is missing a 'field'." });
+        return;
+      }
+      if (filter.type === "polygon") {
+        const gate = parseGate(filter.polygon?.name ?? `Gate ${gates.length + 1}`, {
+          x: filter.field,
+          y: filter.yField,
+          keep: filter.polygon?.keep,
+          vertices: JSON.stringify(filter.polygon?.vertices),
+        }, path, issues);
+        if (gate) gates.push({ ...gate, category: key, filter: { ...filter, ...gate.filter } });
+        return;
+      }
+      if (filter.type === "expression") {
+        const expression = parseExpression(filter.expression?.name ?? `Expression ${expressions.length + 1}`, {
+          condition: filter.expression?.condition,
+          action: filter.expression?.action,
+        }, path, issues);
+        if (expression) expressions.push({ ...expression, category: key, filter: { ...filter, ...expression.filter } });
+        return;
+      }
+      if (filter.type === "category") {
+        // a category filter without a selection lets all cells through
+        if (!filter.categorySelection) return;
+        const { mode, selected } = filter.categorySelection;
+        const categoryFilter = parseCategoryFilter(filter.field, { [mode]: JSON.stringify(selected) }, path, issues);
+        if (categoryFilter) categoryFilters.push({ ...categoryFilter, category: key, filter: { ...filter, ...categoryFilter.filter } });
+        return;
+      }
+      thresholds.push({
+        field: filter.field,
+        category: key,
+        cutoffMin: parseNumber(filter.cutoffMin, `${path}.cutoffMin`, issues),
+        cutoffMax: parseNumber(filter.cutoffMax, `${path}.cutoffMax`, issues),
+        sampleCutoffs: filter.sampleCutoffs ?? undefined,
+        autoThreshold: filter.autoThreshold ?? undefined,
+        type: filter.type ?? undefined,
+        cutoffMinY: parseNumber(filter.cutoffMinY, `${path}.cutoffMinY`, issues),
+        cutoffMaxY: parseNumber(filter.cutoffMaxY, `${path}.cutoffMaxY`, issues),
+        path,
+      });
+    });
+  }
+
+  return { thresholds: thresholds.concat(Array.from(flatThresholds.values())), gates, expressions, categoryFilters };
+}
+
+/**
+ * Map the thresholds of an exported filter file onto the current settings. Fields that are mentioned
+ * in the file get exactly the thresholds of the file, all other filters are left as they are.
+ * The settings that are passed in are not modified.
+ */
+export function importFilters(text: string, settings: Settings, data?: RawData): FilterImportResult {
+  const issues: ValidationIssue[] = [];
+  const { thresholds, gates, expressions, categoryFilters } = text.trim().startsWith("{") ? parseJson(text, issues) : parseYaml(text, issues);
+
+  const newSettings: Settings = JSON.parse(JSON.stringify(settings));
+  const updated = new Set<FilterSettings>();
+
+  for (const threshold of thresholds) {
+    if (threshold.cutoffMin !== undefined && threshold.cutoffMax !== undefined &&
+        threshold.cutoffMin > threshold.cutoffMax) {
+      issues.push({
+        severity: "error",
+        path: threshold.path,
+        message: `Min threshold of "${threshold.field}" is larger than its max threshold.`,
+      });
+      continue;
+    }
+
+    const categories = threshold.category !== undefined ? [threshold.category] : Object.keys(newSettings);
+    let found = false;
+    for (const categoryKey of categories) {
+      for (const filter of newSettings[categoryKey] ?? []) {
+        if (filter.type === "polygon" || filter.type === "expression" || filter.type === "category") continue;
+        // exported files list the Y thresholds of a scatter plot under its yField
+        if (threshold.type === undefined && filter.type === "scatter" && filter.yField === threshold.field) {
+          found = true;
+          updated.add(filter);
+          filter.cutoffMinY = threshold.cutoffMin;
+          filter.cutoffMaxY = threshold.cutoffMax;
+        }
+        if (filter.field !== threshold.field) continue;
+        if (threshold.type !== undefined && filter.type !== threshold.type) continue;
+        found = true;
+        updated.add(filter);
+        filter.cutoffMin = threshold.cutoffMin;
+        filter.cutoffMax = threshold.cutoffMax;
+        filter.sampleCutoffs = threshold.sampleCutoffs;
+        filter.autoThreshold = threshold.autoThreshold;
+        if (threshold.type === "scatter") {
+          filter.cutoffMinY = threshold.cutoffMinY;
+          filter.cutoffMaxY = threshold.cutoffMaxY;
+        }
+      }
+    }
+    if (found) continue;
+
+    const inData = Object.entries(data ?? {}).some(([key, category]) =>
+      (threshold.category === undefined || threshold.category === key) &&
+      category.columns.some(column => column.name === threshold.field)
+    );
+    issues.push({
+      severity: "warning",
+      path: threshold.path,
+      message: inData
+        ? `No filter in the report uses "${threshold.field}", its thresholds are ignored.`
+        : `Field "${threshold.field}" is not present in the current dataset, its thresholds are ignored.`,
+    });
+  }
+
+  // gates replace the gate of the same name, or are added to the filters
+  for (const gate of gates) {
+    const categoryKey = gate.category ?? "cell_rna_stats";
+    const filters = newSettings[categoryKey];
+    if (!filters) {
+      issues.push({ severity: "warning", path: gate.path, message: `Category "${categoryKey}" is not in the report, the gate is ignored.` });
+      continue;
+    }
+    const columns = data?.[categoryKey]?.columns;
+    const missing = [gate.filter.field, gate.filter.yField].filter(field => columns && !columns.some(column => column.name === field));
+    if (missing.length > 0) {
+      issues.push({
+        severity: "warning",
+        path: gate.path,
+        message: `Field(s) ${missing.join(", ")} of gate "${gate.filter.polygon!.name}" are not present in the current dataset, the gate is ignored.`,
+      });
+      continue;
+    }
+
+    const index = filters.findIndex(filter => filter.polygon?.name === gate.filter.polygon!.name);
+    if (index >= 0) {
+      filters[index] = gate.filter;
+    } else {
+      filters.push(gate.filter);
+    }
+    updated.add(gate.filter);
+  }
+
+  // expression filters replace the expression filter of the same name, or are added to the filters
+  for (const expression of expressions) {
+    const categoryKey = expression.category ?? "cell_rna_stats";
+    const filters = newSettings[categoryKey];
+    const { name, condition } = expression.filter.expression!;
+    if (!filters) {
+      issues.push({ severity: "warning", path: expression.path, message: `Category "${categoryKey}" is not in the report, the expression filter is ignored.` });
+      continue;
+    }
+    const error = data?.[categoryKey] ? validateExpression(condition, data[categoryKey]) : undefined;
+    if (error) {
+      issues.push({
+        severity: "warning",
+        path: expression.path,
+        message: `Expression filter "${name}" does not fit the current dataset, it is ignored: ${error}`,
+      });
+      continue;
+    }
+
+    const index = filters.findIndex(filter => filter.expression?.name === name);
+    if (index >= 0) {
+      filters[index] = expression.filter;
+    } else {
+      filters.push(expression.filter);
+    }
+    updated.add(expression.filter);
+  }
+
+  // category filters replace the selection of the category filter on the same field, or are added to the filters
+  for (const categoryFilter of categoryFilters) {
+    const categoryKey = categoryFilter.category ?? "cell_rna_stats";
+    const filters = newSettings[categoryKey];
+    const field = categoryFilter.filter.field;
+    if (!filters) {
+      issues.push({ severity: "warning", path: categoryFilter.path, message: `Category "${categoryKey}" is not in the report, the category filter is ignored.` });
+      continue;
+    }
+    const column = data?.[categoryKey]?.columns.find(column => column.name === field);
+    if (data?.[categoryKey] && (!column || (column.dtype !== "categorical" && column.dtype !== "boolean"))) {
+      issues.push({
+        severity: "warning",
+        path: categoryFilter.path,
+        message: column
+          ? `Field "${field}" is not categorical or boolean, its category filter is ignored.`
+          : `Field "${field}" is not present in the current dataset, its category filter is ignored.`,
+      });
+      continue;
+    }
+
+    const existing = filters.find(filter => filter.type === "category" && filter.field === field);
+    if (existing) {
+      existing.categorySelection = categoryFilter.filter.categorySelection;
+      updated.add(existing);
+    } else {
+      filters.push(categoryFilter.filter);
+      updated.add(categoryFilter.filter);
+    }
+  }
+
+  return { settings: newSettings, numUpdated: updated.size, issues };
+}
@@ -1,27 +1,131 @@
 import { decode } from "@msgpack/msgpack";
 import _ from "lodash";
 import pako from "pako";
-import { ReportStructure, RawData } from "../types";
+import { ReportStructure, RawData, QCCategory, FilterSettings } from "../types";
 import { nullsToUndefined } from "./nulls-to-undefined";
+import { extensionCodec } from "./typed-array-codec";
 
-function decompress<T>(compressed: string): T {
-  const compressedVector = new Uint8Array(
-    atob(compressed)
+type CompressedModule = { compressed_data: string };
+
+// Use a glob import so the build still succeeds when no dataset has been compressed into src/data
+const embeddedModules = import.meta.glob<CompressedModule>([
+  "/src/data/dataset.ts",
+  "/src/data/report_structure.ts",
+]);
+
+function base64ToBytes(encoded: string): Uint8Array {
+  return new Uint8Array(
+    atob(encoded)
       .split("")
       .map((char) => char.charCodeAt(0)),
   );
+}
+
+function decodeBytes<T>(compressedVector: Uint8Array): T {
   const decompressed = pako.ungzip(compressedVector);
-  const decoded = decode(decompressed);
+  // typed array columns are decoded as views on the decompressed buffer
+  const decoded = decode(decompressed, { extensionCodec });
   const out = nullsToUndefined(decoded);
   return out as T;
 }
 
-export async function getData(): Promise<RawData> {
-  const data = await import("~/data/dataset");
-  return decompress<RawData>(data.compressed_data)
+function decompress<T>(compressed: string): T {
+  return decodeBytes<T>(base64ToBytes(compressed));
+}
+
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+/**
+ * Parse a user-provided file. Supported formats are:
+ * - plain JSON, as generated by the previous component in the workflow
+ * - msgpack + gzip, as produced by `compress_data` before base64 encoding
+ * - base64 encoded msgpack + gzip, optionally wrapped in the `export const compressed_data = "..."`
+ *   module written by `compress_data`
+ */
+export async function parseDataFile<T>(file: File): Promise<T> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (isGzip(bytes)) {
+    return decodeBytes<T>(bytes);
+  }
+
+  const text = new TextDecoder().decode(bytes).trim();
+
+  if (text.startsWith("{") || text.startsWith("[")) {
+    return nullsToUndefined(JSON.parse(text)) as T;
+  }
+
+  const moduleMatch = text.match(/compressed_data\s*=\s*["'`]([^"'`]*)["'`]/);
+  const encoded = moduleMatch ? moduleMatch[1] : text.replace(/\s+/g, "");
+
+  try {
+    return decompress<T>(encoded);
+  } catch (err) {
+    throw new Error(
+      `Could not read '${file.name}': expected JSON, msgpack+gzip or base64 encoded data.`,
+    );
+  }
+}
+
+async function getEmbedded<T>(path: string): Promise<T | undefined> {
+  const loader = embeddedModules[path];
+  if (!loader) return undefined;
+  const data = await loader();
+  return decompress<T>(data.compressed_data);
+}
+
+export async function getData(): Promise<RawData | undefined> {
+  return getEmbedded<RawData>("/src/data/dataset.ts");
+}
+
+export async function getReportStructure(): Promise<ReportStructure | undefined> {
+  return getEmbedded<ReportStructure>("/src/data/report_structure.ts");
 }
 
-export async function getReportStructure(): Promise<ReportStructure> {
-  const data = await import("~/data/report_structure");
-  return decompress<ReportStructure>(data.compressed_data);
+/**
+ * Derive a report structure from the data itself, used when a dataset is loaded
+ * without an accompanying structure file.
+ */
+export function inferReportStructure(data: RawData): ReportStructure {
+  const categories: QCCategory[] = Object.keys(data).map((key) => {
+    const isCellLevel = key === "cell_rna_stats";
+    const defaultFilters: FilterSettings[] = data[key].columns
+      .filter((col) => col.dtype === "numeric" || col.dtype === "integer")
+      .filter((col) => !["x_coord", "y_coord"].includes(col.name))
+      .map((col) => ({
+        type: isCellLevel ? "histogram" : "bar",
+        field: col.name,
+        label: col.name.replace(/_/g, " "),
+        nBins: 50,
+        groupBy: "sample_id",
+        yAxisType: "linear",
+      }));
+
+    // gate cells on their counts and mitochondrial fraction together
+    const columnNames = data[key].columns.map((col) => col.name);
+    if (isCellLevel && columnNames.includes("total_counts") && columnNames.includes("fraction_mitochondrial")) {
+      defaultFilters.push({
+        type: "scatter",
+        field: "total_counts",
+        yField: "fraction_mitochondrial",
+        label: "total counts",
+        yLabel: "fraction mitochondrial",
+        description: "Cells inside the gate pass both the total counts and the mitochondrial fraction thresholds",
+        groupBy: "sample_id",
+        xAxisType: "log",
+        yAxisType: "linear",
+      });
+    }
+
+    return {
+      name: _.startCase(key),
+      key,
+      additionalAxes: isCellLevel,
+      defaultFilters,
+    };
+  });
+
+  return { categories };
 }
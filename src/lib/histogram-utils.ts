@@ -1,77 +1,63 @@
-import _ from "lodash";
+import { NumericArray } from "~/types";
 
+// Rows are the rows of the column data to count, all values are counted when they are not given.
+// Groups are returned in ascending order of their category codes.
 export function calculateBinCounts(
-  values: number[], 
+  values: NumericArray, 
   actualMin: number, 
   actualMax: number, 
   numBins: number, 
-  groupValues?: number[]
-): { binCounts: number[], groupCounts?: number[][] } {
+  groupValues?: NumericArray,
+  rows?: ArrayLike<number>
+): { binCounts: number[], groupCounts?: number[][], groups?: number[] } {
   const binSize = (actualMax - actualMin) / numBins;
-  const binCounts = _.fill(Array(numBins + 2), 0);
+  const binCounts = new Array<number>(numBins + 2).fill(0);
+  const numRows = rows ? rows.length : values.length;
+  let groups: number[] | undefined = undefined;
+  let groupMap: Map<number, number> | undefined = undefined;
   let groupCounts: number[][] | undefined = undefined;
   
   if (groupValues) {
-    try {
-      const uniqueGroups = Array.from(new Set(groupValues.filter(v => 
-        Number.isFinite(v) && v >= 0 && v < 1000
-      )));
-      
-      const groupMap = new Map(uniqueGroups.map((val, idx) => [val, idx]));
-      const groupCount = groupMap.size;
-      
-      if (groupCount > 0) {
-        groupCounts = Array(groupCount).fill(0).map(() => 
-          Array(numBins + 2).fill(0)
-        );
-        
-        for (let i = 0; i < values.length; i++) {
-          const v = values[i];
-          let bin = 0;
-          
-          if (v < actualMin) {
-            bin = 0;
-          } else if (v >= actualMax) {
-            bin = numBins + 1;
-          } else {
-            bin = Math.floor((v - actualMin) / binSize) + 1;
-          }
-          
-          binCounts[bin] += 1;
-          
-          const groupVal = groupValues[i];
-          const groupIdx = groupMap.get(groupVal);
-          
-          if (groupIdx !== undefined && groupCounts) {
-            groupCounts[groupIdx][bin] += 1;
-          }
-        }
+    const uniqueGroups = new Set<number>();
+    for (let i = 0; i < numRows; i++) {
+      const groupVal = groupValues[rows ? rows[i] : i];
+      if (Number.isFinite(groupVal) && groupVal >= 0 && groupVal < 1000) {
+        uniqueGroups.add(groupVal);
       }
-      
-      return { binCounts, groupCounts };
-    } catch (err) {
-      console.error("Error in histogram grouping:", err);
+    }
+    
+    if (uniqueGroups.size > 0) {
+      groups = Array.from(uniqueGroups).sort((a, b) => a - b);
+      groupMap = new Map(groups.map((val, idx) => [val, idx]));
+      groupCounts = groups.map(() => Array(numBins + 2).fill(0));
     }
   }
   
-  if (!groupValues || !groupCounts) {
-    for (let i = 0; i < values.length; i++) {
-      const v = values[i];
-      let bin = 0;
-      
-      if (v < actualMin) {
-        bin = 0;
-      } else if (v >= actualMax) {
-        bin = numBins + 1;
-      } else {
-        bin = Math.floor((v - actualMin) / binSize) + 1;
+  for (let i = 0; i < numRows; i++) {
+    const row = rows ? rows[i] : i;
+    const v = values[row];
+    if (v === undefined || v === null || Number.isNaN(v)) continue;
+    
+    let bin = 0;
+    if (v < actualMin) {
+      bin = 0;
+    } else if (v >= actualMax) {
+      bin = numBins + 1;
+    } else {
+      bin = Math.floor((v - actualMin) / binSize) + 1;
+    }
+    
+    binCounts[bin] += 1;
+    
+    if (groupMap && groupCounts) {
+      const groupIdx = groupMap.get(groupValues![row]);
+      if (groupIdx !== undefined) {
+        groupCounts[groupIdx][bin] += 1;
       }
-      
-      binCounts[bin] += 1;
     }
   }
   
-  return { binCounts, groupCounts };
+  return { binCounts, groupCounts, groups };
 }
 
 export function createBinLabels(
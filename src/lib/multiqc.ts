@@ -0,0 +1,225 @@
+import { FilterSettings, RawData, RawDataCategory, Settings } from "~/types";
+import { quantile } from "./auto-threshold";
+import { getColumn, isMissing, rowAt } from "./column-utils";
+import { evaluateFilters, filterFunnel, FunnelResult, passes } from "./filter-engine";
+import { plotTitle } from "./plots";
+
+/*
+ * Custom content files for MultiQC (https://multiqc.info/docs/custom_content/), so the results of the report can
+ * be aggregated with the other QC tools of a run. Every section is written to a file of its own, MultiQC picks up
+ * files ending in `_mqc.json`.
+ */
+
+export type CellSummary = {
+  // numeric metrics of the cells, in the order of the columns
+  metrics: string[];
+  samples: {
+    sample: string;
+    numCells: number;
+    // cells passing the filters, none for excluded samples
+    numPassing: number;
+    excluded: boolean;
+    // median of each metric over the passing cells, null when no cell passes
+    medians: (number | null)[];
+  }[];
+  funnel: FunnelResult;
+};
+
+/**
+ * Cells of each sample before and after filtering and the medians of the cell metrics after filtering.
+ * Samples without cells, e.g. deselected samples, are left out.
+ */
+export function cellSummary(category: RawDataCategory, filters: FilterSettings[], excludedSamples: string[]): CellSummary {
+  const { combined } = evaluateFilters(category, filters);
+  const sampleColumn = getColumn(category, "sample_id");
+  const sampleNames = sampleColumn?.categories ?? [];
+  const excluded = new Set(excludedSamples);
+  const metrics = category.columns.filter(col => col.dtype === "numeric" || col.dtype === "integer");
+
+  const numCells = new Array<number>(sampleNames.length).fill(0);
+  const passingRows: number[][] = sampleNames.map(() => []);
+  for (let i = 0; sampleColumn && i < category.num_rows; i++) {
+    const row = rowAt(category, i);
+    const sample = sampleColumn.data[row] as number;
+    if (isMissing(sample) || sample < 0) continue;
+    numCells[sample]++;
+    if (passes(combined, i) && !excluded.has(sampleNames[sample])) passingRows[sample].push(row);
+  }
+
+  const samples = sampleNames.flatMap((sample, code) => {
+    if (numCells[code] === 0) return [];
+    const rows = passingRows[code];
+    const medians = metrics.map(column => {
+      const values = Float64Array.from(rows.map(row => column.data[row]).filter(value => !isMissing(value))).sort();
+      return values.length > 0 ? quantile(values, 0.5) : null;
+    });
+    return [{ sample, numCells: numCells[code], numPassing: rows.length, excluded: excluded.has(sample), medians }];
+  });
+
+  return { metrics: metrics.map(col => col.name), samples, funnel: filterFunnel(category, filters) };
+}
+
+// A section of custom content, in the format of a `_mqc.json` file
+export type MultiqcSection = {
+  id: string;
+  section_name?: string;
+  description?: string;
+  plot_type: "generalstats" | "bargraph" | "linegraph" | "table";
+  pconfig: Record<string, unknown> | Record<string, unknown>[];
+  data: Record<string, Record<string, number | string | null>>;
+};
+
+export type MultiqcFile = {
+  name: string;
+  section: MultiqcSection;
+};
+
+const ID_PREFIX = "qc_report";
+
+function generalStats(summary: CellSummary): MultiqcSection {
+  const columns: Record<string, Record<string, unknown>>[] = [
+    { cells_before: { title: "Cells (before QC)", description: "Cells before filtering", format: "{:,.0f}" } },
+    { cells_after: { title: "Cells (after QC)", description: "Cells passing the filters", format: "{:,.0f}" } },
+    {
+      pct_passing: {
+        title: "% Cells passing",
+        description: "Percentage of the cells passing the filters",
+        suffix: "%",
+        max: 100,
+        min: 0,
+      },
+    },
+    ...summary.metrics.map(metric => ({
+      [`median_${metric}`]: { title: `Median ${metric}`, description: `Median ${metric} of the cells passing the filters` },
+    })),
+  ];
+
+  const data = Object.fromEntries(summary.samples.map(sample => [sample.sample, {
+    cells_before: sample.numCells,
+    cells_after: sample.numPassing,
+    pct_passing: 100 * sample.numPassing / sample.numCells,
+    ...Object.fromEntries(summary.metrics.map((metric, i) => [`median_${metric}`, sample.medians[i]])),
+  }]));
+
+  return { id: `${ID_PREFIX}_general_stats`, plot_type: "generalstats", pconfig: columns, data };
+}
+
+function cellCounts(summary: CellSummary): MultiqcSection {
+  return {
+    id: `${ID_PREFIX}_cell_counts`,
+    section_name: "Cells passing QC",
+    description: "Cells of each sample passing and failing the filters of the ingestion QC report.",
+    plot_type: "bargraph",
+    pconfig: { id: `${ID_PREFIX}_cell_counts_plot`, title: "Ingestion QC: cells passing QC", ylab: "Cells" },
+    data: Object.fromEntries(summary.samples.map(sample => [sample.sample, {
+      Passing: sample.numPassing,
+      Removed: sample.numCells - sample.numPassing,
+    }])),
+  };
+}
+
+// Cells remaining after each filter, when the filters are applied in order. Excluded samples lose all their cells last.
+function filterSteps(summary: CellSummary, filters: FilterSettings[]): MultiqcSection {
+  const steps = summary.funnel.filters.map(i => plotTitle(filters[i]) ?? filters[i].field);
+  const hasExclusions = summary.samples.some(sample => sample.excluded);
+
+  const data = Object.fromEntries(summary.funnel.samples.map(funnelSample => {
+    let remaining = funnelSample.numRows;
+    const values: Record<string, number> = { "Before filtering": remaining };
+    funnelSample.removed.forEach((numRemoved, step) => values[steps[step]] = remaining -= numRemoved);
+    if (hasExclusions) {
+      values["Sample exclusion"] = summary.samples.find(sample => sample.sample === funnelSample.sample)?.numPassing ?? remaining;
+    }
+    return [funnelSample.sample, values];
+  }));
+
+  return {
+    id: `${ID_PREFIX}_filter_steps`,
+    section_name: "Cells remaining per filter",
+    description: "Cells of each sample remaining after each filter, when the filters are applied one after another.",
+    plot_type: "linegraph",
+    pconfig: {
+      id: `${ID_PREFIX}_filter_steps_plot`,
+      title: "Ingestion QC: cells remaining per filter",
+      xlab: "Filter",
+      ylab: "Cells",
+      categories: true,
+      ymin: 0,
+    },
+    data,
+  };
+}
+
+function cellrangerMetrics(category: RawDataCategory): MultiqcSection | undefined {
+  const sampleColumn = getColumn(category, "sample_id");
+  if (!sampleColumn?.categories) return undefined;
+  const metrics = category.columns.filter(col => col.dtype === "numeric" || col.dtype === "integer");
+
+  const data: MultiqcSection["data"] = {};
+  for (let i = 0; i < category.num_rows; i++) {
+    const row = rowAt(category, i);
+    const sample = sampleColumn.categories[sampleColumn.data[row]];
+    if (sample === undefined) continue;
+    data[sample] = Object.fromEntries(metrics.map(col => [col.name, isMissing(col.data[row]) ? null : col.data[row]]));
+  }
+
+  return {
+    id: `${ID_PREFIX}_cellranger_metrics`,
+    section_name: "CellRanger metrics",
+    description: "Metrics reported by CellRanger for each sample.",
+    plot_type: "table",
+    pconfig: { id: `${ID_PREFIX}_cellranger_metrics_table`, title: "Ingestion QC: CellRanger metrics" },
+    data,
+  };
+}
+
+// The thresholds of the filters by category and field, the rows are the filtered fields rather than samples
+function thresholds(settings: Settings): MultiqcSection | undefined {
+  const data: MultiqcSection["data"] = {};
+  const addThresholds = (categoryKey: string, field: string | undefined, min: number | undefined, max: number | undefined) => {
+    if (field === undefined || (min === undefined && max === undefined)) return;
+    const key = `${categoryKey}: ${field}`;
+    const current = data[key] ?? {};
+    data[key] = {
+      ...current,
+      ...(min !== undefined ? { min: Math.max(min, (current.min as number | undefined) ?? -Infinity) } : {}),
+      ...(max !== undefined ? { max: Math.min(max, (current.max as number | undefined) ?? Infinity) } : {}),
+    };
+  };
+
+  for (const [categoryKey, filters] of Object.entries(settings)) {
+    for (const filter of filters) {
+      addThresholds(categoryKey, filter.field, filter.cutoffMin, filter.cutoffMax);
+      if (filter.type === "scatter") addThresholds(categoryKey, filter.yField, filter.cutoffMinY, filter.cutoffMaxY);
+    }
+  }
+  if (Object.keys(data).length === 0) return undefined;
+
+  return {
+    id: `${ID_PREFIX}_thresholds`,
+    section_name: "QC thresholds",
+    description: "Thresholds applied by the ingestion QC report. Per-sample thresholds, gates, expression and category filters are not listed.",
+    plot_type: "table",
+    pconfig: { id: `${ID_PREFIX}_thresholds_table`, title: "Ingestion QC: thresholds", col1_header: "Metric" },
+    data,
+  };
+}
+
+/**
+ * The custom content files of the report: general statistics, a bar plot of the cells passing QC, a line plot
+ * of the cells remaining per filter, the CellRanger metrics and the thresholds of the applied filters.
+ */
+export function multiqcFiles(summary: CellSummary, data: RawData, settings: Settings | undefined): MultiqcFile[] {
+  const cellFilters = settings?.cell_rna_stats ?? [];
+  const sections = [
+    generalStats(summary),
+    cellCounts(summary),
+    filterSteps(summary, cellFilters),
+    data.metrics_cellranger_stats ? cellrangerMetrics(data.metrics_cellranger_stats) : undefined,
+    settings ? thresholds(settings) : undefined,
+  ];
+  return sections.flatMap(section => section
+    ? [{ name: `${section.id}_mqc.json`, section }]
+    : []
+  );
+}
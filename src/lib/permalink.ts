@@ -0,0 +1,240 @@
+import { decode, encode } from "@msgpack/msgpack";
+import _ from "lodash";
+import pako from "pako";
+import { SettingsState } from "~/components/app/settings-form";
+import { expressionColumns } from "./expression";
+import { QC_STATUS_COLUMN } from "./filter-engine";
+import { FilterSettings, RawData, Settings } from "~/types";
+
+const VERSION = 1;
+
+// Settings of a plot that can be changed in the report, the other settings come from the report structure
+const PLOT_SETTINGS = [
+  "visualizationType",
+  "yField",
+  "cutoffMin",
+  "cutoffMax",
+  "sampleCutoffs",
+  "autoThreshold",
+  "cutoffMinY",
+  "cutoffMaxY",
+  "zoomMin",
+  "zoomMax",
+  "zoomMinY",
+  "zoomMaxY",
+  "nBins",
+  "groupBy",
+  "xAxisType",
+  "yAxisType",
+] as const;
+
+type PlotSettings = Pick<FilterSettings, typeof PLOT_SETTINGS[number]>;
+
+// Plot settings by category and plot key, so they can be restored when the structure lists the plots in another order
+type CompactSettings = Record<string, Record<string, PlotSettings>>;
+
+// Plots are identified by their field, scatter plots get a prefix as they can share the field of a histogram
+const SCATTER_PREFIX = "scatter:";
+
+function plotKey(filter: FilterSettings): string {
+  return filter.type === "scatter" ? `${SCATTER_PREFIX}${filter.field}` : filter.field;
+}
+
+function fieldOfKey(key: string): string {
+  return key.startsWith(SCATTER_PREFIX) ? key.slice(SCATTER_PREFIX.length) : key;
+}
+
+export type ReportState = {
+  form: SettingsState;
+  settings: Settings;
+};
+
+// Polygon gates, expression filters and category filters can be added in the report, so they are stored as a whole
+type Gates = Record<string, FilterSettings[]>;
+
+type EncodedState = {
+  version: number;
+  samples: string[];
+  globalVisualization: SettingsState["globalVisualization"];
+  binning: SettingsState["binning"];
+  settings: CompactSettings;
+  gates?: Gates;
+  // only stored when filters are applied
+  appliedSettings?: CompactSettings;
+  appliedGates?: Gates;
+};
+
+const isGate = (filter: FilterSettings) =>
+  filter.type === "polygon" || filter.type === "expression" || filter.type === "category";
+
+function compactSettings(settings: Settings): CompactSettings {
+  return _.mapValues(settings, filters =>
+    Object.fromEntries(filters.filter(filter => !isGate(filter)).map(filter =>
+      [plotKey(filter), _.omitBy(_.pick(filter, PLOT_SETTINGS), _.isUndefined)]
+    ))
+  );
+}
+
+function gatesOf(settings: Settings): Gates | undefined {
+  const gates = _.pickBy(_.mapValues(settings, filters => filters.filter(isGate)), filters => filters.length > 0);
+  return _.isEmpty(gates) ? undefined : gates;
+}
+
+// Apply compact settings to the settings of the current report, plots that are not in the state are left as
+// they are. The gates, expression and category filters of the current report are replaced by the stored ones.
+function expandSettings(settings: Settings, compact: CompactSettings | undefined, gates: Gates | undefined): Settings {
+  return _.mapValues(settings, (filters, categoryKey) =>
+    filters.filter(filter => !isGate(filter)).map(filter => {
+      const stored = compact?.[categoryKey]?.[plotKey(filter)];
+      if (!stored) return filter;
+      return { ..._.omit(filter, PLOT_SETTINGS), ..._.pick(stored, PLOT_SETTINGS) } as FilterSettings;
+    }).concat(gates?.[categoryKey] ?? [])
+  );
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach(byte => binary += String.fromCharCode(byte));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): Uint8Array {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Encode the state of the report as a compact string for the URL hash:
+ * `<version>.<base64url encoded, deflated msgpack>`.
+ */
+export function encodeReportState(state: ReportState): string {
+  const encoded: EncodedState = {
+    version: VERSION,
+    samples: state.form.sampleSelection.selectedSamples,
+    globalVisualization: state.form.globalVisualization,
+    binning: state.form.binning,
+    settings: compactSettings(state.settings),
+    gates: gatesOf(state.settings),
+    appliedSettings: state.form.filters.enabled
+      ? compactSettings(state.form.filters.appliedSettings)
+      : undefined,
+    appliedGates: state.form.filters.enabled
+      ? gatesOf(state.form.filters.appliedSettings)
+      : undefined,
+  };
+  const bytes = pako.deflateRaw(encode(encoded, { ignoreUndefined: true }));
+  return `${VERSION}.${toBase64Url(bytes)}`;
+}
+
+function decodePayload(value: string): EncodedState {
+  const [version, payload] = value.split(".", 2);
+  if (Number(version) !== VERSION || !payload) {
+    throw new Error(`Unsupported report state version '${version}'.`);
+  }
+  return decode(pako.inflateRaw(fromBase64Url(payload))) as EncodedState;
+}
+
+function sampleIdsOf(data: RawData): string[] | undefined {
+  return data.sample_summary_stats?.columns.find(col => col.name === "sample_id")?.categories;
+}
+
+/**
+ * Restore an encoded report state on top of the current state. Samples and plots which are not part
+ * of the loaded dataset are dropped. Throws when the state can not be read.
+ */
+export function decodeReportState(value: string, current: ReportState, data: RawData): ReportState {
+  const state = decodePayload(value);
+
+  const sampleIds = sampleIdsOf(data);
+  const samples = sampleIds ? state.samples.filter(sample => sampleIds.includes(sample)) : state.samples;
+
+  const settings = expandSettings(current.settings, state.settings, state.gates);
+  return {
+    form: {
+      sampleSelection: { selectedSamples: samples },
+      globalVisualization: { ...current.form.globalVisualization, ...state.globalVisualization },
+      binning: { ...current.form.binning, ...state.binning },
+      filters: state.appliedSettings
+        ? { enabled: true, appliedSettings: expandSettings(current.settings, state.appliedSettings, state.appliedGates) }
+        : { enabled: false, appliedSettings: current.form.filters.appliedSettings },
+    },
+    settings,
+  };
+}
+
+/**
+ * List the samples and columns referenced by an encoded report state that are missing from the data,
+ * these parts of the state are ignored when it is restored.
+ */
+export function findMissingReferences(value: string, data: RawData): string[] {
+  const state = decodePayload(value);
+  const missing: string[] = [];
+
+  const sampleIds = sampleIdsOf(data);
+  const missingSamples = sampleIds ? state.samples.filter(sample => !sampleIds.includes(sample)) : [];
+  if (missingSamples.length > 0) {
+    missing.push(`sample(s) ${missingSamples.join(", ")}`);
+  }
+
+  // the QC status column is derived from the filters once the data is loaded
+  const hasColumn = (categoryKey: string, name: string) =>
+    (categoryKey === "cell_rna_stats" && name === QC_STATUS_COLUMN) ||
+    (data[categoryKey]?.columns.some(col => col.name === name) ?? false);
+
+  // an expression that can not be read is reported as a whole
+  const conditionColumns = (filter: FilterSettings) => {
+    try {
+      return expressionColumns(filter.expression!.condition);
+    } catch {
+      missing.push(`expression filter ${filter.expression!.name}`);
+      return [];
+    }
+  };
+
+  const missingColumns = new Set<string>();
+  for (const compact of [state.settings, state.appliedSettings ?? {}]) {
+    for (const [categoryKey, plots] of Object.entries(compact)) {
+      for (const [key, plot] of Object.entries(plots)) {
+        for (const name of [fieldOfKey(key), plot.yField, plot.groupBy]) {
+          if (name !== undefined && !hasColumn(categoryKey, name)) missingColumns.add(`${categoryKey}.${name}`);
+        }
+      }
+    }
+  }
+  for (const gates of [state.gates ?? {}, state.appliedGates ?? {}]) {
+    for (const [categoryKey, filters] of Object.entries(gates)) {
+      for (const filter of filters) {
+        for (const name of filter.expression ? conditionColumns(filter) : [filter.field, filter.yField]) {
+          if (name !== undefined && !hasColumn(categoryKey, name)) missingColumns.add(`${categoryKey}.${name}`);
+        }
+      }
+    }
+  }
+  if (state.binning.enabled) {
+    for (const name of [state.binning.xCol, state.binning.yCol]) {
+      if (!hasColumn("cell_rna_stats", name)) missingColumns.add(`cell_rna_stats.${name}`);
+    }
+  }
+  if (state.globalVisualization.groupingEnabled &&
+      !Object.keys(data).some(categoryKey => hasColumn(categoryKey, state.globalVisualization.groupBy))) {
+    missingColumns.add(state.globalVisualization.groupBy);
+  }
+  if (missingColumns.size > 0) {
+    missing.push(`column(s) ${Array.from(missingColumns).join(", ")}`);
+  }
+
+  return missing;
+}
+
+const HASH_KEY = "state";
+
+export function readStateFromHash(): string | undefined {
+  return new URLSearchParams(window.location.hash.slice(1)).get(HASH_KEY) ?? undefined;
+}
+
+export function writeStateToHash(value: string) {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  params.set(HASH_KEY, value);
+  // replace the history entry, every change of a setting would otherwise add one
+  history.replaceState(null, "", `#${params.toString()}`);
+}
@@ -1,6 +1,8 @@
-import _ from "lodash";
 import { Config, Layout, Shape, PlotData } from "plotly.js-dist-min";
-import { RawData, HeatmapData } from "~/types";
+import { FilterSettings, RawDataCategory, HeatmapData, NumericArray } from "~/types";
+import type { DistributionResult, GateResult } from "./compute";
+import type { FunnelResult, OverlapResult } from "./filter-engine";
+import { columnExtent, getColumn, rowAt } from "./column-utils";
 import { wrapText } from "./text-utils";
 
 export const recurringColours = {
@@ -10,21 +12,26 @@ export const recurringColours = {
   fail: "#bdbdbd",
 }
 
+// yref can be set to e.g. "y2 domain" to only draw the line in a single subplot. The line is named after
+// the cutoff (and the sample of a per-sample cutoff), so a dragged line can be traced back to its cutoff.
 export function cutoffShape(
   label: "Min" | "Max",
   value?: number,
+  yref: Shape["yref"] = "paper",
+  sample?: string,
 ): Partial<Shape>[] {
-  if (value) {
+  if (value !== undefined) {
     const color = label === "Min" ? recurringColours.green : recurringColours.red;
     const xanchor = label === "Min" ? "left" : "right";
     return [
       {
         type: "line",
+        name: sample === undefined ? label : `${label}:${sample}`,
         y0: 0,
         y1: 1,
         x0: value,
         x1: value,
-        yref: "paper",
+        yref: yref,
         line: {
           width: 3,
           dash: "dot",
@@ -42,40 +49,187 @@ export function cutoffShape(
   return [];
 }
 
-export function violinData(data: RawData, valueName: string) {
-  const x = data.cell_rna_stats.columns.find((c) => c.name === valueName)?.data;
-  const y = data.cell_rna_stats.columns.find(
-    (c) => c.name === "sample_id",
-  )?.data;
+// One violin or box per group, drawn horizontally so many groups can be compared below each other
+export function violinData(
+  distribution: DistributionResult,
+  mode: "violin" | "box",
+  groupNames?: string[],
+): Partial<PlotData>[] {
+  return distribution.groups.map((group) => {
+    const name = group.group !== undefined ? groupNames?.[group.group] ?? `${group.group}` : "All cells";
+    const hovertext = `${name}<br>${group.numValues} cells<br>median: ${group.median.toPrecision(4)}`;
 
-  return [
-    {
+    if (mode === "box") {
+      // the statistics are precomputed, so plotly does not need all values
+      return {
+        type: "box" as const,
+        orientation: "h" as const,
+        name,
+        y: [name],
+        q1: [group.q1],
+        median: [group.median],
+        q3: [group.q3],
+        lowerfence: [group.lowerFence],
+        upperfence: [group.upperFence],
+        hovertext,
+        showlegend: false,
+      } as Partial<PlotData>;
+    }
+
+    return {
       type: "violin" as const,
-      x: x,
-      y: y,
-      orientation: "h",
-    },
-  ];
+      orientation: "h" as const,
+      name,
+      x: Array.from(group.values),
+      box: { visible: true },
+      meanline: { visible: false },
+      points: false,
+      spanmode: "hard",
+      hovertext,
+      showlegend: false,
+    } as Partial<PlotData>;
+  });
 }
 
 export function violinLayout(
   dataLabel: string,
+  numGroups: number,
   minCutoff?: number,
   maxCutoff?: number,
   type: "log" | "linear" = "log",
+  groupLabel: string = "Sample",
 ): Partial<Layout> {
   return {
     xaxis: {
       title: dataLabel,
       type: type,
       fixedrange: true,
+      automargin: true,
     },
     yaxis: {
-      title: "Sample",
+      title: groupLabel,
       fixedrange: true,
+      automargin: true,
+      autorange: "reversed",
     },
     shapes: cutoffShape("Min", minCutoff).concat(cutoffShape("Max", maxCutoff)),
-    height: 500,
+    height: Math.max(300, 40 * numGroups + 100),
+    margin: {
+      b: 60,
+      t: 20,
+      l: 175,
+      r: 10,
+      pad: 4,
+    },
+  };
+}
+
+// Cells passing the gate are drawn on top of the cells that fail it
+export function gateData(gate: GateResult): Partial<PlotData>[] {
+  const numFailing = gate.numRows - gate.numPassing;
+  return [
+    { name: `Fail (${numFailing})`, points: gate.fail, color: recurringColours.fail },
+    { name: `Pass (${gate.numPassing})`, points: gate.pass, color: recurringColours.pass },
+  ].map(({ name, points, color }) => ({
+    type: "scattergl" as const,
+    mode: "markers" as const,
+    name,
+    x: Array.from(points.x),
+    y: Array.from(points.y),
+    marker: { size: 4, opacity: 0.6, color },
+    hoverinfo: "x+y" as const,
+  }));
+}
+
+// Outline of a polygon gate, or of a selection that is about to become one
+export function polygonShape(vertices: [number, number][], xref: Shape["xref"] = "x", yref: Shape["yref"] = "y"): Partial<Shape> {
+  return {
+    type: "path",
+    xref,
+    yref,
+    path: vertices.map(([x, y], i) => `${i === 0 ? "M" : "L"}${x},${y}`).join(" ") + " Z",
+    line: {
+      color: recurringColours.green,
+      width: 2,
+      dash: "dot",
+    },
+    fillcolor: "rgba(77, 175, 74, 0.08)",
+  };
+}
+
+// Rectangle spanned by the X and Y cutoffs, a cutoff that is not set extends the gate to the extent of the data
+export function gateShape(filter: FilterSettings, gate: GateResult): Partial<Shape>[] {
+  if (filter.polygon) return [polygonShape(filter.polygon.vertices)];
+
+  const cutoffs = [filter.cutoffMin, filter.cutoffMax, filter.cutoffMinY, filter.cutoffMaxY];
+  if (cutoffs.every(cutoff => cutoff === undefined)) return [];
+
+  return [
+    {
+      type: "rect",
+      xref: "x",
+      yref: "y",
+      x0: filter.cutoffMin ?? gate.xExtent[0],
+      x1: filter.cutoffMax ?? gate.xExtent[1],
+      y0: filter.cutoffMinY ?? gate.yExtent[0],
+      y1: filter.cutoffMaxY ?? gate.yExtent[1],
+      line: {
+        color: recurringColours.green,
+        width: 2,
+        dash: "dot",
+      },
+      // recurringColours.green, mostly transparent so the points stay visible
+      fillcolor: "rgba(77, 175, 74, 0.08)",
+    },
+  ];
+}
+
+// Axis range for the zoom settings, plotly expects the range of log axes as powers of 10
+function zoomRange(
+  extent: [number, number],
+  type: "log" | "linear",
+  zoomMin?: number,
+  zoomMax?: number,
+): [number, number] | undefined {
+  if (zoomMin === undefined && zoomMax === undefined) return undefined;
+  const range: [number, number] = [zoomMin ?? extent[0], zoomMax ?? extent[1]];
+  return type === "log" ? [Math.log10(range[0]), Math.log10(range[1])] : range;
+}
+
+// Spatial plots keep the aspect ratio of the tissue
+export function gateLayout(filter: FilterSettings, gate?: GateResult, isSpatial: boolean = false): Partial<Layout> {
+  const xType = filter.xAxisType || "linear";
+  const yType = filter.yAxisType || "linear";
+  return {
+    xaxis: {
+      title: filter.label || filter.field,
+      type: xType,
+      range: gate && zoomRange(gate.xExtent, xType, filter.zoomMin, filter.zoomMax),
+      fixedrange: true,
+      automargin: true,
+    },
+    yaxis: {
+      title: filter.yLabel || filter.yField,
+      type: yType,
+      range: gate && zoomRange(gate.yExtent, yType, filter.zoomMinY, filter.zoomMaxY),
+      fixedrange: true,
+      automargin: true,
+      scaleanchor: isSpatial ? "x" : undefined,
+      scaleratio: isSpatial ? 1 : undefined,
+    },
+    shapes: gate ? gateShape(filter, gate) : [],
+    // dragging draws a lasso, which can be turned into a polygon gate
+    dragmode: "lasso",
+    height: isSpatial ? 600 : 450,
+    hovermode: "closest",
+    legend: { orientation: "h", y: -0.2 },
+    margin: {
+      b: 60,
+      t: 20,
+      l: 80,
+      r: 10,
+      pad: 4,
+    },
   };
 }
 
@@ -86,6 +240,37 @@ export function plotlyConfig(): Partial<Config> {
   };
 }
 
+// Heading of a plot, plots of two metrics name both
+export function plotTitle(setting: FilterSettings) {
+  if (setting.type === "polygon") {
+    return `${setting.polygon!.name}: ${setting.label} vs ${setting.yLabel || setting.yField}`;
+  }
+  if (setting.type === "expression") {
+    return `${setting.expression!.name}: ${setting.expression!.condition}`;
+  }
+  if (setting.type === "scatter") {
+    return `${setting.label} vs ${setting.yLabel || setting.yField}`;
+  }
+  return setting.label;
+}
+
+// Cutoff lines can be dragged on plots with this config
+export function cutoffDragConfig(): Partial<Config> {
+  return {
+    ...plotlyConfig(),
+    edits: { shapePosition: true },
+  };
+}
+
+// Plots on which gates can be drawn show the selection tools, which are hidden by plotlyConfig
+export function selectionConfig(zoomable: boolean = false): Partial<Config> {
+  return {
+    ...plotlyConfig(),
+    displayModeBar: true,
+    modeBarButtons: [zoomable ? ["zoom2d", "pan2d", "lasso2d", "select2d", "resetScale2d"] : ["lasso2d", "select2d"]],
+  };
+}
+
 export function createAxisAnnotation(
   text: string, 
   position: number, 
@@ -145,6 +330,55 @@ export function createScatterTrace(
   };
 }
 
+// Cells removed by the filters, drawn as a faded layer below the cells that pass
+export function removedCellsTrace(
+  x: Array<number | string | Date | null>,
+  y: Array<number | string | Date | null>,
+  isSpatial: boolean = false,
+  axisIndex: number = 0,
+): Partial<PlotData> {
+  return {
+    type: "scatter",
+    mode: "markers",
+    x, y,
+    name: "Removed",
+    marker: {
+      size: isSpatial ? 6 : 8,
+      opacity: 0.3,
+      color: recurringColours.fail,
+    },
+    hoverinfo: "skip",
+    xaxis: axisIndex > 0 ? `x${axisIndex}` : "x",
+    yaxis: axisIndex > 0 ? `y${axisIndex}` : "y",
+    showlegend: axisIndex === 0,
+  };
+}
+
+// Bins with cells removed by the filters, drawn as a faded layer below the heatmap of the cells that pass
+export function removedCellsHeatmap(
+  xBinCenters: number[],
+  yBinCenters: number[],
+  removed: number[][],
+  xaxis: string,
+  yaxis: string,
+): Partial<PlotData> {
+  const faded = "rgba(189, 189, 189, 0.5)";
+  return {
+    type: "heatmap",
+    x: xBinCenters,
+    y: yBinCenters,
+    z: removed.map(row => row.map(count => count > 0 ? 1 : null)),
+    colorscale: [[0, faded], [1, faded]],
+    showscale: false,
+    hoverongaps: false,
+    customdata: removed,
+    hovertemplate: "<b>Removed cells in bin</b>: %{customdata}<extra></extra>",
+    xaxis,
+    yaxis,
+    name: "Removed",
+  } as Partial<PlotData>;
+}
+
 export function createBasicLayout(
   xTitle: string, 
   yTitle: string, 
@@ -176,9 +410,9 @@ export function createBasicLayout(
 
 export function getHeatmapColorValue(
   dtype: string, 
-  colorValues: number[], 
+  colorValues: NumericArray, 
   binData: HeatmapData, 
-  groupValues: number[] | undefined, 
+  groupValues: NumericArray | undefined, 
   group: number | undefined
 ): (number | undefined)[][] {
   const binColors: (number | undefined)[][] = Array.from({ length: binData.numBinsY }, () => 
@@ -199,16 +433,17 @@ export function getHeatmapColorValue(
       }
 
       if (dtype === "categorical") {
-        const mode = _.flow(
-          _.countBy,
-          _.toPairs,
-          _.partialRight(_.maxBy, _.last),
-          _.head
-        )(values);
-        binColors[yBin][xBin] = mode as number | undefined;
+        const counts = new Map<number, number>();
+        let mode = values[0];
+        for (const value of values) {
+          const count = (counts.get(value) ?? 0) + 1;
+          counts.set(value, count);
+          if (count > counts.get(mode)!) mode = value;
+        }
+        binColors[yBin][xBin] = mode;
       } else if (["numeric", "integer", "boolean"].includes(dtype)) {
-        const mean = _.mean(values);
-        binColors[yBin][xBin] = mean as number | undefined;
+        const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+        binColors[yBin][xBin] = mean;
       }
     }
   }
@@ -216,11 +451,248 @@ export function getHeatmapColorValue(
   return binColors;
 }
 
-export function createHeatmapGrid(binData: HeatmapData, binColors: (number | undefined)[][]) {
+// Assign the cells of a category to a regular grid based on their coordinates
+export function binCells(
+  category: RawDataCategory,
+  xColName: string,
+  yColName: string,
+  numBinsX: number,
+  numBinsY: number
+): HeatmapData | undefined {
+  const xCol = getColumn(category, xColName);
+  const yCol = getColumn(category, yColName);
+
+  if (!xCol || !yCol) return undefined;
+  if (xCol.dtype !== "numeric" || yCol.dtype !== "numeric") {
+    console.error("Grid binning requires numeric coordinates");
+    return undefined;
+  }
+  const xCoord = xCol.data as NumericArray;
+  const yCoord = yCol.data as NumericArray;
+
+  const xExtent = columnExtent(category, xCol);
+  const yExtent = columnExtent(category, yCol);
+  if (!xExtent || !yExtent) return undefined;
+
+  // Add a small offset to avoid having cells fall exactly on the bin edges
+  const xMin = xExtent[0] - 1e-6;
+  const xMax = xExtent[1] + 1e-6;
+  const yMin = yExtent[0] - 1e-6;
+  const yMax = yExtent[1] + 1e-6;
+  const binWidthX = (xMax - xMin) / numBinsX;
+  const binWidthY = (yMax - yMin) / numBinsY;
+
+  // Create regular rectangular grid - bins represent center coordinates
+  const xBinCenters = Array.from({ length: numBinsX }, (_, i) => 
+    xMin + (i + 0.5) * binWidthX
+  );
+  const yBinCenters = Array.from({ length: numBinsY }, (_, i) => 
+    yMin + (i + 0.5) * binWidthY
+  );
+
+  // Create 2D array to store cell indices for each bin
+  const binIndices: number[][][] = Array.from({ length: numBinsY }, () => 
+    Array.from({ length: numBinsX }, () => [])
+  );
+
+  // Assign each cell to its corresponding bin, storing the row in the column data
+  for (let i = 0; i < category.num_rows; i++) {
+    const row = rowAt(category, i);
+    const px = xCoord[row];
+    const py = yCoord[row];
+
+    // Find bin indices
+    const xBin = Math.floor((px - xMin) / binWidthX);
+    const yBin = Math.floor((py - yMin) / binWidthY);
+    
+    // Ensure we're within bounds
+    if (xBin >= 0 && xBin < numBinsX && yBin >= 0 && yBin < numBinsY) {
+      binIndices[yBin][xBin].push(row);
+    }
+  }
+
+  return {
+    xMin,
+    xMax,
+    yMin,
+    yMax,
+    numBinsX,
+    numBinsY,
+    binWidthX,
+    binWidthY,
+    xBinCenters,
+    yBinCenters,
+    binIndices
+  };
+}
+
+// Cells of each sample that are retained, stacked with the cells removed by each step of the filter funnel
+export function funnelSampleData(funnel: FunnelResult, stepNames: string[]): Partial<PlotData>[] {
+  const samples = funnel.samples.map(s => s.sample);
+  const retained: Partial<PlotData> = {
+    type: "bar",
+    orientation: "h",
+    name: "Retained",
+    x: funnel.samples.map(s => s.numRows - s.removed.reduce((sum, n) => sum + n, 0)),
+    y: samples,
+    marker: { color: recurringColours.pass },
+  };
+  return [retained].concat(stepNames.map((name, step) => ({
+    type: "bar",
+    orientation: "h",
+    name: `Removed by ${name}`,
+    x: funnel.samples.map(s => s.removed[step]),
+    y: samples,
+  })));
+}
+
+export function funnelSampleLayout(numSamples: number): Partial<Layout> {
+  return {
+    barmode: "stack",
+    xaxis: { title: "Cells", automargin: true },
+    yaxis: { type: "category", automargin: true, autorange: "reversed" },
+    legend: { orientation: "h", y: -0.2 },
+    height: Math.max(300, 30 * numSamples + 150),
+    margin: { l: 175, t: 20, r: 10, b: 60 },
+  };
+}
+
+// Cells in each category of a category filter, the categories that are removed are greyed out
+export function categoryBarData(categories: string[], counts: number[], passing: boolean[]): Partial<PlotData>[] {
+  return [{
+    type: "bar",
+    orientation: "h",
+    x: counts,
+    y: categories,
+    marker: { color: passing.map(pass => pass ? recurringColours.pass : recurringColours.fail) },
+    hovertemplate: "%{y}: %{x} cells<extra></extra>",
+  }];
+}
+
+export function categoryBarLayout(title: string, numCategories: number): Partial<Layout> {
   return {
-    x: binData.xBinCenters,
-    y: binData.yBinCenters,
-    z: binColors,
+    xaxis: { title: "Cells", automargin: true },
+    yaxis: { title, type: "category", automargin: true, autorange: "reversed" },
+    height: Math.max(250, 25 * numCategories + 100),
+    margin: { l: 175, t: 20, r: 10, b: 50 },
   };
 }
 
+// The bars above the matrix of an UpSet plot show the largest intersections only
+const MAX_INTERSECTIONS = 20;
+
+export function upsetIntersections(overlap: OverlapResult) {
+  return overlap.intersections.slice(0, MAX_INTERSECTIONS);
+}
+
+/**
+ * UpSet plot of the rows failing each filter: the size of each intersection above a matrix with the
+ * filters that make up the intersection, and the number of rows failing each filter left of the matrix.
+ */
+export function upsetData(overlap: OverlapResult, setNames: string[]): Partial<PlotData>[] {
+  const intersections = upsetIntersections(overlap);
+  const columns = intersections.map((_, i) => i);
+  const names = intersections.map(({ failed }) => failed.map(j => setNames[j]).join(" & "));
+
+  const members = intersections.flatMap(({ failed }, i) => failed.map(j => [i, j]));
+  // one line per intersection, separated by gaps
+  const links = intersections.flatMap(({ failed }, i) =>
+    failed.length > 1 ? [[i, failed[0]], [i, failed[failed.length - 1]], [null, null]] : []
+  );
+
+  return [
+    {
+      type: "bar",
+      x: columns,
+      y: intersections.map(({ count }) => count),
+      text: intersections.map(({ count }) => count.toString()),
+      textposition: "outside",
+      hovertext: names,
+      hoverinfo: "y+text",
+      marker: { color: recurringColours.pass },
+      xaxis: "x",
+      yaxis: "y",
+    },
+    {
+      type: "scatter",
+      mode: "markers",
+      x: columns.flatMap(i => setNames.map(() => i)),
+      y: columns.flatMap(() => setNames.map((_, j) => j)),
+      marker: { size: 12, color: "#e0e0e0" },
+      hoverinfo: "skip",
+      xaxis: "x",
+      yaxis: "y2",
+    },
+    {
+      type: "scatter",
+      mode: "lines",
+      x: links.map(([i]) => i),
+      y: links.map(([, j]) => j),
+      line: { color: recurringColours.pass, width: 3 },
+      hoverinfo: "skip",
+      xaxis: "x",
+      yaxis: "y2",
+    },
+    {
+      type: "scatter",
+      mode: "markers",
+      x: members.map(([i]) => i),
+      y: members.map(([, j]) => j),
+      marker: { size: 12, color: recurringColours.pass },
+      hoverinfo: "skip",
+      xaxis: "x",
+      yaxis: "y2",
+    },
+    {
+      type: "bar",
+      orientation: "h",
+      x: overlap.setSizes,
+      y: setNames.map((_, j) => j),
+      hovertext: setNames,
+      hoverinfo: "x+text",
+      marker: { color: recurringColours.red },
+      xaxis: "x2",
+      yaxis: "y2",
+    },
+  ];
+}
+
+export function upsetLayout(overlap: OverlapResult, setNames: string[]): Partial<Layout> {
+  const numIntersections = upsetIntersections(overlap).length;
+  return {
+    xaxis: {
+      domain: [0.4, 1],
+      range: [-0.5, numIntersections - 0.5],
+      showticklabels: false,
+      showgrid: false,
+      zeroline: false,
+      fixedrange: true,
+    },
+    yaxis: {
+      domain: [0.45, 1],
+      title: "Cells failing exactly these filters",
+      anchor: "x",
+      fixedrange: true,
+    },
+    xaxis2: {
+      domain: [0, 0.15],
+      anchor: "y2",
+      autorange: "reversed",
+      title: "Cells failing",
+      fixedrange: true,
+    },
+    yaxis2: {
+      domain: [0, 0.4],
+      anchor: "x",
+      range: [setNames.length - 0.5, -0.5],
+      tickvals: setNames.map((_, j) => j),
+      ticktext: setNames.map(name => wrapText(name)),
+      showgrid: false,
+      zeroline: false,
+      fixedrange: true,
+    },
+    showlegend: false,
+    height: 400 + 30 * setNames.length,
+    margin: { l: 10, t: 20, r: 10, b: 60 },
+  };
+}
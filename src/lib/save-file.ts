@@ -0,0 +1,50 @@
+// Type of a file offered by the save dialog, e.g. { description: "YAML files", accept: { "text/yaml": [".yaml"] } }
+export type FileType = {
+  description: string;
+  accept: Record<string, string[]>;
+};
+
+/**
+ * Save a file with the save dialog of the browser, or as a regular download when the browser
+ * does not support the File System Access API. Errors are reported with an alert.
+ */
+export async function saveFile(blob: Blob, suggestedName: string, fileType: FileType) {
+  try {
+    // Check if the File System Access API is available
+    if ('showSaveFilePicker' in window) {
+      // Use the modern File System Access API
+      const options = {
+        types: [fileType],
+        suggestedName,
+      };
+
+      // @ts-ignore - TypeScript might not recognize this API yet
+      const fileHandle = await window.showSaveFilePicker(options);
+      const writable = await fileHandle.createWritable();
+      await writable.write(blob);
+      await writable.close();
+    } else {
+      // Fall back to the traditional approach
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = suggestedName;
+
+      // Add to the document and click
+      document.body.appendChild(link);
+      link.click();
+
+      // Clean up
+      setTimeout(() => {
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+      }, 100);
+    }
+  } catch (err) {
+    console.error("Error saving file:", err);
+    // If the user canceled the save dialog, don't show an error
+    if (!(err instanceof DOMException && err.name === 'AbortError')) {
+      alert("Failed to save file. " + err);
+    }
+  }
+}
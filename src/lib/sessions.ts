@@ -0,0 +1,80 @@
+import { RawData } from "~/types";
+
+// A named report state, encoded with encodeReportState
+export type Snapshot = {
+  id: string;
+  name: string;
+  createdAt: string;
+  state: string;
+};
+
+const STORAGE_PREFIX = "qc-report";
+
+/**
+ * Identify a dataset by its categories, columns and samples, so sessions of different datasets
+ * do not collide. The values themselves are not hashed to keep this fast for large datasets.
+ */
+export function datasetFingerprint(data: RawData): string {
+  const description = Object.keys(data).sort().map(key => {
+    const category = data[key];
+    const columns = category.columns.map(col => `${col.name}:${col.dtype}:${col.data.length}`);
+    const samples = category.columns.find(col => col.name === "sample_id")?.categories ?? [];
+    return `${key}[${columns.join(",")}](${samples.join(",")})`;
+  }).join(";");
+
+  // 32-bit FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < description.length; i++) {
+    hash ^= description.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+function storageKey(fingerprint: string, name: "autosave" | "snapshots") {
+  return `${STORAGE_PREFIX}:${fingerprint}:${name}`;
+}
+
+// localStorage can be unavailable (e.g. for files opened in some private windows) or full
+function readItem(key: string): string | undefined {
+  try {
+    return localStorage.getItem(key) ?? undefined;
+  } catch (err) {
+    console.warn("Could not read from localStorage:", err);
+    return undefined;
+  }
+}
+
+function writeItem(key: string, value: string): boolean {
+  try {
+    localStorage.setItem(key, value);
+    return true;
+  } catch (err) {
+    console.warn("Could not write to localStorage:", err);
+    return false;
+  }
+}
+
+export function loadAutosave(fingerprint: string): string | undefined {
+  return readItem(storageKey(fingerprint, "autosave"));
+}
+
+export function saveAutosave(fingerprint: string, state: string) {
+  writeItem(storageKey(fingerprint, "autosave"), state);
+}
+
+export function loadSnapshots(fingerprint: string): Snapshot[] {
+  const stored = readItem(storageKey(fingerprint, "snapshots"));
+  if (!stored) return [];
+  try {
+    const snapshots = JSON.parse(stored);
+    return Array.isArray(snapshots) ? snapshots : [];
+  } catch (err) {
+    console.warn("Could not read the stored snapshots:", err);
+    return [];
+  }
+}
+
+export function saveSnapshots(fingerprint: string, snapshots: Snapshot[]): boolean {
+  return writeItem(storageKey(fingerprint, "snapshots"), JSON.stringify(snapshots));
+}
@@ -0,0 +1,7 @@
+import { ExtensionCodec } from "@msgpack/msgpack";
+
+export const extensionCodec: ExtensionCodec;
+
+export function toTypedColumns<T>(data: T): T;
+
+export function encodeAligned(value: unknown): Uint8Array;
@@ -0,0 +1,102 @@
+// Plain JavaScript so that it can be shared between the app and scripts/compress_data.js.
+// Types are declared in typed-array-codec.d.ts.
+import { decode, encode, ExtensionCodec } from "@msgpack/msgpack";
+
+// msgpack extension types used for the columns
+const EXT_INT32 = 2;
+const EXT_FLOAT64 = 3;
+
+const INT32_MIN = -2147483648;
+const INT32_MAX = 2147483647;
+
+// Each typed array is stored as [pad length][pad bytes][array bytes][remaining pad bytes], where the
+// padding makes sure the array starts at a multiple of 8 bytes in the decoded buffer. This way the
+// decoder can create a view on the buffer instead of copying the values. The payload always reserves
+// PAD_BYTES bytes so that its size does not depend on the amount of padding.
+const PAD_BYTES = 8;
+
+function createCodec(getPadding) {
+  const codec = new ExtensionCodec();
+  let counter = 0;
+
+  const encodeArray = (array) => {
+    const padding = getPadding(counter++);
+    const payload = new Uint8Array(PAD_BYTES + array.byteLength);
+    payload[0] = padding;
+    payload.set(new Uint8Array(array.buffer, array.byteOffset, array.byteLength), 1 + padding);
+    return payload;
+  };
+
+  const decodeArray = (ArrayType) => (data) => {
+    const start = data.byteOffset + 1 + data[0];
+    const length = (data.byteLength - PAD_BYTES) / ArrayType.BYTES_PER_ELEMENT;
+    if (start % ArrayType.BYTES_PER_ELEMENT === 0) {
+      return new ArrayType(data.buffer, start, length);
+    }
+    // the buffer was shifted after encoding, fall back to copying the values
+    return new ArrayType(data.buffer.slice(start, start + length * ArrayType.BYTES_PER_ELEMENT));
+  };
+
+  codec.register({
+    type: EXT_INT32,
+    encode: (value) => (value instanceof Int32Array ? encodeArray(value) : null),
+    decode: decodeArray(Int32Array),
+  });
+  codec.register({
+    type: EXT_FLOAT64,
+    encode: (value) => (value instanceof Float64Array ? encodeArray(value) : null),
+    decode: decodeArray(Float64Array),
+  });
+
+  return codec;
+}
+
+export const extensionCodec = createCodec(() => 0);
+
+/**
+ * Store numeric columns as Float64Array (missing values become NaN) and integer columns as
+ * Int32Array. Integer columns with missing or out of range values are left as they are.
+ * Numeric values keep their full precision, so a value equal to a cutoff is compared as such.
+ */
+export function toTypedColumns(data) {
+  for (const category of Object.values(data)) {
+    for (const column of category.columns) {
+      if (!Array.isArray(column.data)) continue;
+      if (column.dtype === "numeric") {
+        column.data = Float64Array.from(column.data, (value) =>
+          value === null || value === undefined ? NaN : value,
+        );
+      } else if (column.dtype === "integer") {
+        const fitsInt32 = column.data.every(
+          (value) => Number.isInteger(value) && value >= INT32_MIN && value <= INT32_MAX,
+        );
+        if (fitsInt32) {
+          column.data = Int32Array.from(column.data);
+        }
+      }
+    }
+  }
+  return data;
+}
+
+/**
+ * Encode a value to msgpack, with the typed arrays aligned in the output buffer.
+ */
+export function encodeAligned(value) {
+  // First pass: encode without padding and record where each typed array payload ends up.
+  // The payload size does not depend on the padding, so the offsets stay the same in the second pass.
+  const unpadded = encode(value, { extensionCodec });
+  const offsets = [];
+  const recordOffset = (data) => {
+    offsets.push(data.byteOffset - unpadded.byteOffset + 1);
+    return null;
+  };
+  const recorder = new ExtensionCodec();
+  recorder.register({ type: EXT_INT32, encode: () => null, decode: recordOffset });
+  recorder.register({ type: EXT_FLOAT64, encode: () => null, decode: recordOffset });
+  decode(unpadded, { extensionCodec: recorder });
+
+  return encode(value, {
+    extensionCodec: createCodec((i) => (PAD_BYTES - (offsets[i] % PAD_BYTES)) % PAD_BYTES),
+  });
+}
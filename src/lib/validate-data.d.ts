@@ -0,0 +1,18 @@
+import { RawData } from "../types";
+
+export type ValidationIssue = {
+  severity: "error" | "warning";
+  path: string;
+  message: string;
+};
+
+export function validateRawData(data: unknown): ValidationIssue[];
+
+export function validateReportStructure(
+  structure: unknown,
+  data?: RawData,
+): ValidationIssue[];
+
+export function hasErrors(issues: ValidationIssue[]): boolean;
+
+export function formatIssue(issue: ValidationIssue): string;
@@ -0,0 +1,459 @@
+// Plain JavaScript so that it can be shared between the app and scripts/compress_data.js.
+// Types are declared in validate-data.d.ts.
+
+const DTYPES = ["categorical", "numeric", "boolean", "integer"];
+const FILTER_TYPES = ["histogram", "bar", "scatter", "polygon", "expression", "category"];
+const VISUALIZATION_TYPES = ["histogram", "violin", "box", "spatial"];
+const AUTO_THRESHOLD_METHODS = ["mad", "log_mad", "percentile"];
+const AUTO_THRESHOLD_BOUNDS = ["both", "lower", "upper"];
+const POLYGON_KEEP = ["inside", "outside"];
+const EXPRESSION_ACTIONS = ["remove", "keep"];
+const CATEGORY_MODES = ["include", "exclude"];
+const MAX_REPORTED_VALUES = 5;
+
+function isObject(value) {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isMissing(value) {
+  return value === null || value === undefined;
+}
+
+function describe(value) {
+  return typeof value === "string" ? `"${value}"` : String(value);
+}
+
+function checkValue(column, value) {
+  switch (column.dtype) {
+    case "numeric":
+      return typeof value === "number";
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "categorical":
+      return (
+        Number.isInteger(value) &&
+        value >= 0 &&
+        value < (column.categories?.length ?? 0)
+      );
+  }
+  return true;
+}
+
+function validateColumn(column, numRows, path, issues) {
+  if (!isObject(column)) {
+    issues.push({ severity: "error", path, message: "Column must be an object." });
+    return;
+  }
+  if (typeof column.name !== "string" || column.name === "") {
+    issues.push({ severity: "error", path, message: "Column is missing a name." });
+  }
+  if (!DTYPES.includes(column.dtype)) {
+    issues.push({
+      severity: "error",
+      path,
+      message: `Unknown dtype ${describe(column.dtype)}, expected one of ${DTYPES.join(", ")}.`,
+    });
+    return;
+  }
+  if (column.dtype === "categorical") {
+    if (
+      !Array.isArray(column.categories) ||
+      column.categories.some((cat) => typeof cat !== "string")
+    ) {
+      issues.push({
+        severity: "error",
+        path,
+        message: "Categorical column must have a 'categories' array of strings.",
+      });
+      return;
+    }
+  }
+  if (!Array.isArray(column.data) && !ArrayBuffer.isView(column.data)) {
+    issues.push({ severity: "error", path, message: "Column 'data' must be an array." });
+    return;
+  }
+  if (column.data.length !== numRows) {
+    issues.push({
+      severity: "error",
+      path,
+      message: `Column has ${column.data.length} values, but the category has num_rows = ${numRows}.`,
+    });
+  }
+
+  // only report the first few offending values to keep the output readable
+  const invalid = [];
+  let numInvalid = 0;
+  for (let i = 0; i < column.data.length; i++) {
+    const value = column.data[i];
+    if (isMissing(value) || checkValue(column, value)) continue;
+    numInvalid++;
+    if (invalid.length < MAX_REPORTED_VALUES) {
+      invalid.push(`[${i}] = ${describe(value)}`);
+    }
+  }
+  if (numInvalid > 0) {
+    const expected =
+      column.dtype === "categorical"
+        ? `category codes between 0 and ${column.categories.length - 1}`
+        : `${column.dtype} values`;
+    issues.push({
+      severity: "error",
+      path,
+      message: `${numInvalid} value(s) are not valid ${expected}: ${invalid.join(", ")}${numInvalid > invalid.length ? ", ..." : ""}.`,
+    });
+  }
+}
+
+function validateCategory(category, path, issues) {
+  if (!isObject(category)) {
+    issues.push({ severity: "error", path, message: "Category must be an object." });
+    return;
+  }
+  if (!Number.isInteger(category.num_rows) || category.num_rows < 0) {
+    issues.push({
+      severity: "error",
+      path,
+      message: `num_rows must be a non-negative integer, got ${describe(category.num_rows)}.`,
+    });
+    return;
+  }
+  if (!Array.isArray(category.columns)) {
+    issues.push({ severity: "error", path, message: "Category must have a 'columns' array." });
+    return;
+  }
+  if (category.num_cols !== undefined && category.num_cols !== null && category.num_cols !== category.columns.length) {
+    issues.push({
+      severity: "warning",
+      path,
+      message: `num_cols is ${category.num_cols}, but the category has ${category.columns.length} columns.`,
+    });
+  }
+
+  const seen = new Set();
+  category.columns.forEach((column, i) => {
+    const columnPath = `${path}.columns[${i}]${column?.name ? ` (${column.name})` : ""}`;
+    validateColumn(column, category.num_rows, columnPath, issues);
+    if (column?.name) {
+      if (seen.has(column.name)) {
+        issues.push({ severity: "error", path: columnPath, message: `Duplicate column name "${column.name}".` });
+      }
+      seen.add(column.name);
+    }
+  });
+
+  const sampleId = category.columns.find((column) => column?.name === "sample_id");
+  if (!sampleId) {
+    issues.push({ severity: "error", path, message: "Required column 'sample_id' is missing." });
+  } else if (sampleId.dtype !== "categorical") {
+    issues.push({
+      severity: "error",
+      path: `${path}.sample_id`,
+      message: `Column 'sample_id' must be categorical, got ${describe(sampleId.dtype)}.`,
+    });
+  }
+}
+
+/**
+ * Validate a dataset against the RawData format.
+ * @returns a list of issues, empty if the data is valid.
+ */
+export function validateRawData(data) {
+  const issues = [];
+  if (!isObject(data)) {
+    issues.push({ severity: "error", path: "data", message: "Dataset must be an object of categories." });
+    return issues;
+  }
+  const keys = Object.keys(data);
+  if (keys.length === 0) {
+    issues.push({ severity: "error", path: "data", message: "Dataset does not contain any categories." });
+  }
+  for (const key of keys) {
+    validateCategory(data[key], key, issues);
+  }
+  if (!keys.includes("cell_rna_stats")) {
+    issues.push({ severity: "error", path: "data", message: "Required category 'cell_rna_stats' is missing." });
+  }
+  return issues;
+}
+
+function validateAutoThreshold(auto, path, issues) {
+  if (!isObject(auto)) {
+    issues.push({ severity: "error", path, message: "'autoThreshold' must be an object." });
+    return;
+  }
+  if (!AUTO_THRESHOLD_METHODS.includes(auto.method)) {
+    issues.push({
+      severity: "error",
+      path,
+      message: `Unknown method ${describe(auto.method)}, expected one of ${AUTO_THRESHOLD_METHODS.join(", ")}.`,
+    });
+  }
+  if (!AUTO_THRESHOLD_BOUNDS.includes(auto.bounds)) {
+    issues.push({
+      severity: "error",
+      path,
+      message: `Unknown bounds ${describe(auto.bounds)}, expected one of ${AUTO_THRESHOLD_BOUNDS.join(", ")}.`,
+    });
+  }
+  for (const param of ["k", "lowerPercentile", "upperPercentile"]) {
+    if (!isMissing(auto[param]) && typeof auto[param] !== "number") {
+      issues.push({ severity: "error", path, message: `'${param}' must be a number, got ${describe(auto[param])}.` });
+    }
+  }
+  for (const param of ["lowerPercentile", "upperPercentile"]) {
+    if (typeof auto[param] === "number" && (auto[param] < 0 || auto[param] > 100)) {
+      issues.push({ severity: "error", path, message: `'${param}' must be between 0 and 100.` });
+    }
+  }
+}
+
+function validatePolygon(polygon, path, issues) {
+  if (!isObject(polygon)) {
+    issues.push({ severity: "error", path, message: "Polygon filter is missing a 'polygon' object." });
+    return;
+  }
+  if (typeof polygon.name !== "string") {
+    issues.push({ severity: "error", path, message: "Polygon is missing a 'name'." });
+  }
+  if (!POLYGON_KEEP.includes(polygon.keep)) {
+    issues.push({
+      severity: "error",
+      path,
+      message: `Unknown keep ${describe(polygon.keep)}, expected one of ${POLYGON_KEEP.join(", ")}.`,
+    });
+  }
+  const isVertex = (vertex) =>
+    Array.isArray(vertex) && vertex.length === 2 && vertex.every((value) => typeof value === "number");
+  if (!Array.isArray(polygon.vertices) || polygon.vertices.length < 3 || !polygon.vertices.every(isVertex)) {
+    issues.push({ severity: "error", path, message: "'vertices' must be a list of at least 3 [x, y] pairs." });
+  }
+}
+
+// The condition itself is checked against the data once the report is loaded
+function validateExpression(expression, path, issues) {
+  if (!isObject(expression)) {
+    issues.push({ severity: "error", path, message: "Expression filter is missing an 'expression' object." });
+    return;
+  }
+  if (typeof expression.name !== "string" || expression.name === "") {
+    issues.push({ severity: "error", path, message: "Expression filter is missing a 'name'." });
+  }
+  if (typeof expression.condition !== "string" || expression.condition.trim() === "") {
+    issues.push({ severity: "error", path, message: "Expression filter is missing a 'condition'." });
+  }
+  if (!EXPRESSION_ACTIONS.includes(expression.action)) {
+    issues.push({
+      severity: "error",
+      path,
+      message: `Unknown action ${describe(expression.action)}, expected one of ${EXPRESSION_ACTIONS.join(", ")}.`,
+    });
+  }
+}
+
+function validateCategorySelection(selection, path, issues) {
+  if (!isObject(selection)) {
+    issues.push({ severity: "error", path, message: "'categorySelection' must be an object." });
+    return;
+  }
+  if (!CATEGORY_MODES.includes(selection.mode)) {
+    issues.push({
+      severity: "error",
+      path,
+      message: `Unknown mode ${describe(selection.mode)}, expected one of ${CATEGORY_MODES.join(", ")}.`,
+    });
+  }
+  if (!Array.isArray(selection.selected) || !selection.selected.every((name) => typeof name === "string")) {
+    issues.push({ severity: "error", path, message: "'selected' must be a list of category names." });
+  }
+}
+
+function validateFilter(filter, path, columns, issues) {
+  if (!isObject(filter)) {
+    issues.push({ severity: "error", path, message: "Filter must be an object." });
+    return;
+  }
+  if (!FILTER_TYPES.includes(filter.type)) {
+    issues.push({
+      severity: "error",
+      path,
+      message: `Unknown filter type ${describe(filter.type)}, expected one of ${FILTER_TYPES.join(", ")}.`,
+    });
+  }
+  if (!isMissing(filter.visualizationType) && !VISUALIZATION_TYPES.includes(filter.visualizationType)) {
+    issues.push({
+      severity: "error",
+      path,
+      message: `Unknown visualizationType ${describe(filter.visualizationType)}, expected one of ${VISUALIZATION_TYPES.join(", ")}.`,
+    });
+  }
+  // the columns of an expression filter are part of its condition
+  if (filter.type === "expression") {
+    validateExpression(filter.expression, `${path}.expression`, issues);
+    return;
+  }
+  if (typeof filter.field !== "string" || filter.field === "") {
+    issues.push({ severity: "error", path, message: "Filter is missing a 'field'." });
+    return;
+  }
+  for (const bound of ["cutoffMin", "cutoffMax", "cutoffMinY", "cutoffMaxY", "zoomMin", "zoomMax", "zoomMinY", "zoomMaxY", "nBins"]) {
+    if (!isMissing(filter[bound]) && typeof filter[bound] !== "number") {
+      issues.push({ severity: "error", path, message: `'${bound}' must be a number, got ${describe(filter[bound])}.` });
+    }
+  }
+  if (!isMissing(filter.cutoffMin) && !isMissing(filter.cutoffMax) && filter.cutoffMin > filter.cutoffMax) {
+    issues.push({ severity: "error", path, message: "'cutoffMin' is larger than 'cutoffMax'." });
+  }
+  if (!isMissing(filter.cutoffMinY) && !isMissing(filter.cutoffMaxY) && filter.cutoffMinY > filter.cutoffMaxY) {
+    issues.push({ severity: "error", path, message: "'cutoffMinY' is larger than 'cutoffMaxY'." });
+  }
+  if ((filter.type === "scatter" || filter.type === "polygon") && (typeof filter.yField !== "string" || filter.yField === "")) {
+    issues.push({ severity: "error", path, message: `${filter.type === "scatter" ? "Scatter" : "Polygon"} filter is missing a 'yField'.` });
+  }
+  if (filter.type === "polygon") {
+    validatePolygon(filter.polygon, `${path}.polygon`, issues);
+  }
+  if (filter.type === "category" && !isMissing(filter.categorySelection)) {
+    validateCategorySelection(filter.categorySelection, `${path}.categorySelection`, issues);
+  }
+  if (!isMissing(filter.autoThreshold)) {
+    validateAutoThreshold(filter.autoThreshold, `${path}.autoThreshold`, issues);
+  }
+  if (!isMissing(filter.sampleCutoffs)) {
+    if (!isObject(filter.sampleCutoffs)) {
+      issues.push({ severity: "error", path, message: "'sampleCutoffs' must be an object of cutoffs by sample id." });
+    } else {
+      for (const [sample, cutoffs] of Object.entries(filter.sampleCutoffs)) {
+        const samplePath = `${path}.sampleCutoffs.${sample}`;
+        for (const bound of ["cutoffMin", "cutoffMax"]) {
+          if (!isMissing(cutoffs?.[bound]) && typeof cutoffs[bound] !== "number") {
+            issues.push({ severity: "error", path: samplePath, message: `'${bound}' must be a number, got ${describe(cutoffs[bound])}.` });
+          }
+        }
+        if (!isMissing(cutoffs?.cutoffMin) && !isMissing(cutoffs?.cutoffMax) && cutoffs.cutoffMin > cutoffs.cutoffMax) {
+          issues.push({ severity: "error", path: samplePath, message: "'cutoffMin' is larger than 'cutoffMax'." });
+        }
+      }
+    }
+  }
+  if (columns) {
+    const column = columns.find((col) => col?.name === filter.field);
+    if (!column) {
+      issues.push({
+        severity: "warning",
+        path,
+        message: `Field "${filter.field}" is not present in the data, this plot will not be shown.`,
+      });
+    } else if (filter.type === "category") {
+      if (column.dtype !== "categorical" && column.dtype !== "boolean") {
+        issues.push({
+          severity: "error",
+          path,
+          message: `Field "${filter.field}" is ${column.dtype}, category filters need a categorical or boolean field.`,
+        });
+      }
+    } else if (column.dtype === "categorical") {
+      issues.push({
+        severity: "error",
+        path,
+        message: `Field "${filter.field}" is categorical and cannot be plotted as a ${filter.type}.`,
+      });
+    }
+    for (const field of ["yField", "groupBy"]) {
+      if (!isMissing(filter[field]) && !columns.some((col) => col?.name === filter[field])) {
+        issues.push({
+          severity: "warning",
+          path,
+          message: `${field} "${filter[field]}" is not present in the data.`,
+        });
+      }
+    }
+  }
+}
+
+// Parameter names of the thresholds of a field, by field: { total_counts: { min: "min_counts" } }
+function validateWorkflowParams(workflowParams, path, issues) {
+  if (!isObject(workflowParams)) {
+    issues.push({ severity: "error", path, message: "'workflowParams' must be an object with the parameter names by field." });
+    return;
+  }
+  for (const [field, names] of Object.entries(workflowParams)) {
+    const fieldPath = `${path}.${field}`;
+    if (!isObject(names)) {
+      issues.push({ severity: "error", path: fieldPath, message: "Parameter names must be an object with 'min' and/or 'max'." });
+      continue;
+    }
+    for (const [bound, name] of Object.entries(names)) {
+      if (bound !== "min" && bound !== "max") {
+        issues.push({ severity: "warning", path: fieldPath, message: `Unknown bound '${bound}', expected 'min' or 'max'.` });
+      } else if (typeof name !== "string" || name === "") {
+        issues.push({ severity: "error", path: fieldPath, message: `The parameter name of '${bound}' must be a non-empty string.` });
+      }
+    }
+  }
+}
+
+/**
+ * Validate a report structure. When the dataset is passed as well, the category keys and
+ * filter fields are checked against it.
+ * @returns a list of issues, empty if the structure is valid.
+ */
+export function validateReportStructure(structure, data) {
+  const issues = [];
+  if (!isObject(structure) || !Array.isArray(structure.categories)) {
+    issues.push({ severity: "error", path: "structure", message: "Structure must have a 'categories' array." });
+    return issues;
+  }
+  structure.categories.forEach((category, i) => {
+    const path = `categories[${i}]${category?.name ? ` (${category.name})` : ""}`;
+    if (!isObject(category)) {
+      issues.push({ severity: "error", path, message: "Category must be an object." });
+      return;
+    }
+    if (typeof category.name !== "string") {
+      issues.push({ severity: "error", path, message: "Category is missing a 'name'." });
+    }
+    if (typeof category.key !== "string" || category.key === "") {
+      issues.push({ severity: "error", path, message: "Category is missing a 'key'." });
+      return;
+    }
+    if (typeof category.additionalAxes !== "boolean") {
+      issues.push({ severity: "error", path, message: "'additionalAxes' must be a boolean." });
+    }
+    if (category.workflowParams !== undefined) {
+      validateWorkflowParams(category.workflowParams, `${path}.workflowParams`, issues);
+    }
+    if (!Array.isArray(category.defaultFilters)) {
+      issues.push({ severity: "error", path, message: "Category must have a 'defaultFilters' array." });
+      return;
+    }
+
+    let columns = undefined;
+    if (isObject(data)) {
+      if (!isObject(data[category.key])) {
+        issues.push({
+          severity: "warning",
+          path,
+          message: `Key "${category.key}" is not present in the data, this category will not be shown.`,
+        });
+      } else if (Array.isArray(data[category.key].columns)) {
+        columns = data[category.key].columns;
+      }
+    }
+
+    category.defaultFilters.forEach((filter, j) => {
+      const filterPath = `${path}.defaultFilters[${j}]${filter?.field ? ` (${filter.field})` : ""}`;
+      validateFilter(filter, filterPath, columns, issues);
+    });
+  });
+  return issues;
+}
+
+export function hasErrors(issues) {
+  return issues.some((issue) => issue.severity === "error");
+}
+
+export function formatIssue(issue) {
+  return `[${issue.severity}] ${issue.path}: ${issue.message}`;
+}
@@ -0,0 +1,172 @@
+import { FilterSettings, ReportStructure, Settings, WorkflowParamNames } from "~/types";
+
+/*
+ * Parameters for the filtering components of the OpenPipelines ingestion workflow, e.g.
+ *
+ *   min_counts: 200
+ *   max_fraction_mito: 0.2
+ *   sample_overrides:
+ *     "sample_1":
+ *       min_counts: 500
+ *   provenance:
+ *     dataset: "data.json"
+ *     ...
+ *
+ * The thresholds of a field are exported under the parameter names declared in the `workflowParams` of its
+ * category in the report structure. Thresholds without a parameter name, and filters that can not be expressed
+ * as thresholds (polygon gates, expression and category filters), are listed in the provenance instead.
+ */
+
+export type WorkflowParamsFormat = "yaml" | "json";
+
+export type WorkflowProvenance = {
+  dataset: string;
+  dataset_fingerprint?: string;
+  exported_at: string;
+  selected_samples: string[];
+  // samples failing the sample-level thresholds
+  excluded_samples: string[];
+  not_exported: string[];
+};
+
+export type WorkflowParams = {
+  // values by parameter name
+  thresholds: Record<string, number>;
+  // values by sample and parameter name
+  sampleOverrides: Record<string, Record<string, number>>;
+  provenance: WorkflowProvenance;
+};
+
+// Parameters of the OpenPipelines filter_with_counts component for the cell metrics of the ingestion workflow,
+// used for the fields the report structure does not declare parameters for
+const DEFAULT_WORKFLOW_PARAMS: Record<string, Record<string, WorkflowParamNames>> = {
+  cell_rna_stats: {
+    total_counts: { min: "min_counts", max: "max_counts" },
+    num_nonzero_vars: { min: "min_genes_per_cell", max: "max_genes_per_cell" },
+    fraction_mitochondrial: { min: "min_fraction_mito", max: "max_fraction_mito" },
+  },
+};
+
+// Parameter names of the fields of a category, the ones declared in the structure take precedence
+function workflowParamNames(structure: ReportStructure, categoryKey: string): Record<string, WorkflowParamNames> {
+  const category = structure.categories.find(category => category.key === categoryKey);
+  return { ...DEFAULT_WORKFLOW_PARAMS[categoryKey], ...category?.workflowParams };
+}
+
+// A field can be filtered by more than one plot, all filters apply so the strictest threshold is kept
+function addParam(target: Record<string, number>, bound: "min" | "max", param: string, value: number) {
+  const current = target[param];
+  target[param] = current === undefined ? value : bound === "min" ? Math.max(current, value) : Math.min(current, value);
+}
+
+function filterDescription(categoryKey: string, filter: FilterSettings): string {
+  if (filter.polygon) return `polygon gate "${filter.polygon.name}"`;
+  if (filter.expression) return `expression filter "${filter.expression.name}"`;
+  return `category filter on ${categoryKey}.${filter.field}`;
+}
+
+/**
+ * Build the workflow parameters from the filter settings. Only the thresholds that are set are exported,
+ * per-sample cutoffs become the `sample_overrides` of the selected samples.
+ */
+export function workflowParams(
+  structure: ReportStructure,
+  settings: Settings,
+  provenance: Omit<WorkflowProvenance, "not_exported">,
+): WorkflowParams {
+  const thresholds: Record<string, number> = {};
+  const sampleOverrides: Record<string, Record<string, number>> = {};
+  const notExported = new Set<string>();
+
+  for (const [categoryKey, filters] of Object.entries(settings)) {
+    const names = workflowParamNames(structure, categoryKey);
+
+    const addThreshold = (
+      bound: "min" | "max",
+      field: string | undefined,
+      value: number | undefined,
+      target: Record<string, number> = thresholds,
+    ) => {
+      if (field === undefined || value === undefined) return;
+      const param = names[field]?.[bound];
+      if (param) {
+        addParam(target, bound, param, value);
+      } else {
+        notExported.add(`${bound} threshold of ${categoryKey}.${field}`);
+      }
+    };
+
+    for (const filter of filters) {
+      if (filter.type === "polygon" || filter.type === "expression" || filter.type === "category") {
+        if (filter.type !== "category" || filter.categorySelection) {
+          notExported.add(filterDescription(categoryKey, filter));
+        }
+        continue;
+      }
+
+      addThreshold("min", filter.field, filter.cutoffMin);
+      addThreshold("max", filter.field, filter.cutoffMax);
+
+      // The Y axis of a scatter plot filters its yField
+      if (filter.type === "scatter") {
+        addThreshold("min", filter.yField, filter.cutoffMinY);
+        addThreshold("max", filter.yField, filter.cutoffMaxY);
+      }
+
+      for (const [sample, cutoffs] of Object.entries(filter.sampleCutoffs || {})) {
+        if (!provenance.selected_samples.includes(sample)) continue;
+        const overrides = (sampleOverrides[sample] ??= {});
+        addThreshold("min", filter.field, cutoffs.cutoffMin, overrides);
+        addThreshold("max", filter.field, cutoffs.cutoffMax, overrides);
+      }
+    }
+  }
+
+  // overrides of thresholds without a parameter name leave nothing to export for a sample
+  for (const [sample, overrides] of Object.entries(sampleOverrides)) {
+    if (Object.keys(overrides).length === 0) delete sampleOverrides[sample];
+  }
+
+  return {
+    thresholds,
+    sampleOverrides,
+    provenance: { ...provenance, not_exported: Array.from(notExported) },
+  };
+}
+
+function formatYaml({ thresholds, sampleOverrides, provenance }: WorkflowParams): string {
+  let yamlContent = "# OpenPipelines ingestion workflow parameters\n";
+  yamlContent += "# Exported from the QC report, see the provenance block at the end\n\n";
+
+  for (const [param, value] of Object.entries(thresholds)) {
+    yamlContent += `${param}: ${value}\n`;
+  }
+
+  if (Object.keys(sampleOverrides).length > 0) {
+    yamlContent += "\n# Parameters that override the ones above for individual samples\n";
+    yamlContent += "sample_overrides:\n";
+    for (const [sample, overrides] of Object.entries(sampleOverrides)) {
+      yamlContent += `  ${JSON.stringify(sample)}:\n`;
+      for (const [param, value] of Object.entries(overrides)) {
+        yamlContent += `    ${param}: ${value}\n`;
+      }
+    }
+  }
+
+  yamlContent += "\nprovenance:\n";
+  for (const [key, value] of Object.entries(provenance)) {
+    if (value === undefined) continue;
+    yamlContent += `  ${key}: ${JSON.stringify(value)}\n`;
+  }
+  return yamlContent;
+}
+
+function formatJson({ thresholds, sampleOverrides, provenance }: WorkflowParams): string {
+  const sampleOverridesEntry = Object.keys(sampleOverrides).length > 0 ? { sample_overrides: sampleOverrides } : {};
+  return JSON.stringify({ ...thresholds, ...sampleOverridesEntry, provenance }, null, 2) + "\n";
+}
+
+// The parameters as a params file for the workflow, the thresholds are top-level parameters
+export function formatWorkflowParams(params: WorkflowParams, format: WorkflowParamsFormat): string {
+  return format === "yaml" ? formatYaml(params) : formatJson(params);
+}
@@ -0,0 +1,105 @@
+import pako from "pako";
+
+export type ZipEntry = {
+  // path of the file in the archive, e.g. "multiqc/cell_counts_mqc.json"
+  name: string;
+  data: Uint8Array | string;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Date and time in the MS-DOS format used by zip files, with a resolution of two seconds
+function dosDateTime(date: Date): [number, number] {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return [time, day];
+}
+
+/**
+ * Write the entries to a zip archive. Entries are deflated unless that does not make them smaller, e.g. for
+ * PNG images which are already compressed. Names are stored as UTF-8.
+ */
+export function createZip(entries: ZipEntry[], date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const [time, day] = dosDateTime(date);
+
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data;
+    const deflated = pako.deflateRaw(data);
+    const stored = deflated.length >= data.length;
+    const content = stored ? data : deflated;
+    const crc = crc32(data);
+
+    // fields shared by the local file header and the central directory
+    const common = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true); // version needed to extract
+      view.setUint16(at + 2, 0x0800, true); // names are UTF-8
+      view.setUint16(at + 4, stored ? 0 : 8, true);
+      view.setUint16(at + 6, time, true);
+      view.setUint16(at + 8, day, true);
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, content.length, true);
+      view.setUint32(at + 18, data.length, true);
+      view.setUint16(at + 22, name.length, true);
+    };
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    common(localView, 4);
+    local.set(name, 30);
+    localParts.push(local, content);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true); // version made by
+    common(centralView, 6);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+    centralParts.push(central);
+
+    offset += local.length + content.length;
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const zip = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of parts) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}
@@ -1,7 +1,11 @@
+// Numeric columns are stored as Float64Array and integer columns as Int32Array
+// when the data was compressed with compress_data
+export type NumericArray = number[] | Float64Array | Int32Array;
+
 export type RawDataColumn = {
   name: string;
   dtype: "categorical" | "numeric" | "boolean" | "integer";
-  data: any[];
+  data: any[] | Float64Array | Int32Array;
   categories?: string[];
 };
 
@@ -9,6 +13,9 @@ export type RawDataCategory = {
   num_rows: number;
   num_cols?: number;
   columns: RawDataColumn[];
+  // Rows of the column data that are part of this category, used to select samples or cells
+  // without copying the columns. When set, num_rows is the length of the index.
+  index?: Int32Array;
   min_total_counts?: number;
   min_num_nonzero_vars?: number;
 };
@@ -18,8 +25,8 @@ export type RawData = {
 };
 
 export interface FilterSettings {
-  type: "histogram" | "bar" | "scatter";
-  visualizationType?: "histogram" | "spatial";  // Only histogram and spatial
+  type: "histogram" | "bar" | "scatter" | "polygon" | "expression" | "category";
+  visualizationType?: "histogram" | "violin" | "box" | "spatial";
   field: string;
   label?: string;
   // yField can still stay as it might be used by the scatterplot component
@@ -28,8 +35,18 @@ export interface FilterSettings {
   description?: string;
   cutoffMin?: number;
   cutoffMax?: number;
+  // Cutoffs for the cells of individual samples, by sample id. A bound that is not set falls back to cutoffMin or cutoffMax.
+  sampleCutoffs?: Record<string, SampleCutoffs>;
+  // How the cutoffs were derived from the data, unset when they were entered by hand
+  autoThreshold?: AutoThreshold;
   cutoffMinY?: number;
   cutoffMaxY?: number;
+  // Gate drawn on a plot of field against yField, only used by polygon filters
+  polygon?: PolygonGate;
+  // Condition on any columns of the category, only used by expression filters. field is the first column it uses.
+  expression?: ExpressionFilter;
+  // Categories of a categorical or boolean field that pass, only used by category filters
+  categorySelection?: CategorySelection;
   zoomMin?: number;
   zoomMax?: number;
   zoomMinY?: number;
@@ -40,6 +57,47 @@ export interface FilterSettings {
   yAxisType?: "linear" | "log";
 }
 
+export type SampleCutoffs = {
+  cutoffMin?: number;
+  cutoffMax?: number;
+};
+
+export type PolygonGate = {
+  name: string;
+  // in the coordinates of field (x) and yField (y), the polygon is closed between the last and the first vertex
+  vertices: [number, number][];
+  // whether the cells inside or outside of the polygon pass
+  keep: "inside" | "outside";
+};
+
+export type ExpressionFilter = {
+  name: string;
+  // boolean expression over the columns of the category, see lib/expression
+  condition: string;
+  // whether the cells for which the condition holds are removed or kept
+  action: "remove" | "keep";
+};
+
+export type CategorySelection = {
+  // whether the cells of the selected categories are the ones that are kept or the ones that are removed
+  mode: "include" | "exclude";
+  // category names, "true" and "false" for boolean columns
+  selected: string[];
+};
+
+export type AutoThreshold = {
+  // median ± k MAD, median ± k MAD of the log1p transformed values, or percentiles
+  method: "mad" | "log_mad" | "percentile";
+  k?: number;
+  // between 0 and 100
+  lowerPercentile?: number;
+  upperPercentile?: number;
+  // which cutoffs are derived, the other cutoff is left as it is
+  bounds: "both" | "lower" | "upper";
+  // derive the cutoffs of every sample from its own cells
+  perSample: boolean;
+};
+
 // New type definitions
 export type ReportStructure = {
   categories: QCCategory[];
@@ -50,6 +108,14 @@ export type QCCategory = {
   key: keyof RawData;
   additionalAxes: boolean;
   defaultFilters: FilterSettings[];
+  // Names of the workflow parameters the thresholds of a field are exported as, by field, see lib/workflow-params
+  workflowParams?: Record<string, WorkflowParamNames>;
+};
+
+export type WorkflowParamNames = {
+  // parameter for the lower (cutoffMin) and the upper (cutoffMax) threshold, a bound without a name is not exported
+  min?: string;
+  max?: string;
 };
 
 export type Settings = {
@@ -77,5 +143,20 @@ export type HeatmapData = {
   binWidthY: number;
   xBinCenters: number[];
   yBinCenters: number[];
+  // rows of the column data in each bin, indexed by [yBin][xBin]
   binIndices: number[][][];
 };
+
+// Heatmap values computed from HeatmapData, one grid per group or a single grid when not grouped
+export type HeatmapGrid = {
+  xBinCenters: number[];
+  yBinCenters: number[];
+  grids: {
+    group?: number;
+    z: (number | undefined)[][];
+    // number of cells in each bin
+    counts: number[][];
+    // number of cells in each bin that were removed by the filters, only when they are shown
+    removed?: number[][];
+  }[];
+};